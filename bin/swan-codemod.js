@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+/**
+ * @file swan-codemod 命令
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+'use strict';
+
+const path = require('path');
+const {runCodemod} = require('../');
+
+const USAGE = `Usage: swan-codemod -t <transform> [options] <pattern...>
+
+Run the transform module over the template files (.swan, .wxml, .axml, .ttml, .qml) which match the glob patterns.
+
+Options:
+  -t, --transform <file>  the module which exports the transform function
+  -d, --dry               print the diffs instead of writing the files
+  -h, --help              print this message`;
+
+/**
+ * Parse the command line arguments.
+ * @param {string[]} argv The arguments.
+ * @returns {Object} The codemod options, or `null` if the usage should be printed.
+ */
+function parseArgs(argv) {
+    const options = {patterns: [], transform: null, dry: false};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '-t' || arg === '--transform') {
+            options.transform = argv[++i];
+        }
+        else if (arg.startsWith('--transform=')) {
+            options.transform = arg.slice('--transform='.length);
+        }
+        else if (arg === '-d' || arg === '--dry') {
+            options.dry = true;
+        }
+        else if (arg === '-h' || arg === '--help' || arg.startsWith('-')) {
+            return null;
+        }
+        else {
+            options.patterns.push(arg);
+        }
+    }
+    return options.transform && options.patterns.length ? options : null;
+}
+
+/**
+ * Run the command.
+ * @param {string[]} argv The arguments.
+ * @returns {number} The exit code.
+ */
+function main(argv) {
+    const options = parseArgs(argv);
+    if (options == null) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    let summary = null;
+    try {
+        summary = runCodemod(options);
+    }
+    catch (e) {
+        console.error(e.message);
+        return 1;
+    }
+    for (const file of summary.files) {
+        const relativePath = path.relative(process.cwd(), file.filePath);
+        if (file.status === 'failed') {
+            console.error(`FAIL ${relativePath}: ${file.error.message}`);
+        }
+        else if (file.status === 'changed' && options.dry) {
+            process.stdout.write(file.diff);
+        }
+        else if (file.status === 'changed') {
+            console.log(`WRITE ${relativePath}`);
+        }
+    }
+    console.log(`${summary.changed} changed, ${summary.unchanged} unchanged, ${summary.failed} failed.`);
+    return summary.failed ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -5,7 +5,7 @@ import cleanup from 'rollup-plugin-cleanup';
 const pkg = require('./package.json');
 
 const deps = new Set(
-    ['assert', 'events', 'path'].concat(Object.keys(pkg.dependencies))
+    ['assert', 'events', 'fs', 'path'].concat(Object.keys(pkg.dependencies))
 );
 
 export default {
@@ -0,0 +1,312 @@
+/**
+ * @file 节点构造
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {
+    ControlDirectivePrefix, EventDirectivePrefix, HasLocation, MustacheBinding, Token, XAttribute, XDirective,
+    XDirectiveKey, XDirectiveKeyPart, XDocument, XElement, XEndTag, XExpression, XIdentifier, XLiteral, XMustache,
+    XStartTag, XText
+} from '../types/ast';
+import {AttributeBuilderValue, ElementBuilderOptions} from '../types/builders';
+import {Dialect, DialectName} from '../types/dialect';
+import {ParserOptions} from '../types/parser';
+import {getDialect, getDialects} from './dialect';
+import {traverseNodes} from './script/traverse';
+import {getForExpression, resolveForReferences, resolveReferences} from './swan-lang';
+
+type ParseFunction = (code: string, options: ParserOptions) => XDocument;
+
+/**
+ * Create the location of synthetic node, the offsets are `-1` and the lines are `0`.
+ */
+function createSyntheticLocation(): HasLocation {
+    return {
+        range: [-1, -1],
+        loc: {start: {line: 0, column: 0}, end: {line: 0, column: 0}}
+    };
+}
+
+/**
+ * Check whether the node is created by builders, it has no location in source code.
+ * @param node The node to check.
+ */
+export function isSyntheticNode(node: HasLocation): boolean {
+    return node.range[0] === -1;
+}
+
+/**
+ * Create the token of synthetic node.
+ * @param type The token type.
+ * @param value The token value.
+ */
+function createToken(type: string, value: string): Token {
+    return {type, value, ...createSyntheticLocation()};
+}
+
+/**
+ * Find the dialect of the directive name, `swan` is preferred for the event directives.
+ * @param rawName The raw name of directive, e.g. `s-if`, `wx:for`, `bind:tap`.
+ * @returns The dialect, or `null` if the name is not a directive name of any dialect.
+ */
+function findDirectiveDialect(rawName: string): Dialect | null {
+    return getDialects().find(dialect => dialect.directiveName.test(rawName)) || null;
+}
+
+/**
+ * Create the directive key from the raw name.
+ * @param rawName The raw name of directive, e.g. `s-if`, `bind:tap.stop`.
+ * @param parent The directive.
+ * @param dialect The dialect of the directive name.
+ */
+function createDirectiveKey(rawName: string, parent: XDirective, dialect: Dialect): XDirectiveKey {
+    const [, prefix, name] = rawName.match(dialect.directiveName)!;
+    const isControl = prefix === dialect.directivePrefix;
+    const [argument, ...modifiers] = isControl ? [null] : name.split('.');
+    const createPart = (value: string): XDirectiveKeyPart => ({value, ...createSyntheticLocation()});
+    return {
+        type: 'XDirectiveKey',
+        ...createSyntheticLocation(),
+        parent,
+        name,
+        argument,
+        modifiers,
+        prefix: isControl ? prefix as ControlDirectivePrefix : prefix.replace(/:$/, '') as EventDirectivePrefix,
+        rawPrefix: prefix,
+        rawName,
+        parts: {
+            prefix: createPart(prefix),
+            argument: argument != null ? createPart(argument) : null,
+            modifiers: modifiers.map(createPart)
+        }
+    };
+}
+
+/**
+ * Define the loop variables of the synthetic element, and resolve the references of its descendants by them.
+ * The references to the variables of ancestors are resolved when the element is inserted by transformers.
+ * @param element The element.
+ */
+function defineElementVariables(element: XElement): void {
+    const forExpression = getForExpression(element);
+    if (forExpression == null) {
+        return;
+    }
+    // the variables of the snippet where the expression is parsed are dropped
+    forExpression.references.forEach(reference => {
+        reference.variable = null;
+    });
+    resolveForReferences(forExpression);
+    traverseNodes(element as any, {
+        enterNode(child) {
+            if (child.type === 'XExpression' && child !== forExpression) {
+                const expression = child as XExpression;
+                resolveReferences(expression, expression.references.filter(reference => reference.variable == null));
+            }
+        },
+        leaveNode() {
+            // Do nothing.
+        },
+    });
+}
+
+/**
+ * Create the builders of synthetic nodes, the expressions are parsed from the code snippets.
+ * The synthetic nodes have no location, they are printed by `print()` and inserted by transformers.
+ * The loop variables of elements are defined, the other references are resolved when the nodes are inserted.
+ * @param parse The function to parse the code snippets.
+ */
+export function createBuilders(parse: ParseFunction) {
+
+    /**
+     * Parse the element of the code snippet.
+     * @param code The code of element.
+     * @param kind The kind of source text in the snippet, e.g. `expression`, `value`.
+     * @param value The source text in the snippet, it is used by the error message.
+     * @param dialect The dialect to parse the snippet.
+     */
+    function parseSnippet(code: string, kind: string, value: string, dialect: Dialect): XElement {
+        const document = parse(code, {dialect: dialect.name} as ParserOptions);
+        const element = document.children[0];
+        if (element == null || element.type !== 'XElement' || document.errors.length) {
+            throw new Error(`The code of ${kind} is invalid: ${value}`);
+        }
+        return element;
+    }
+
+    /**
+     * Create the text node.
+     * @param value The text, it is escaped when printing.
+     */
+    function text(value: string): XText {
+        return {type: 'XText', ...createSyntheticLocation(), parent: null as any, value};
+    }
+
+    /**
+     * Create the literal of attribute value.
+     * @param value The text, it is escaped when printing.
+     */
+    function literal(value: string): XLiteral {
+        return {type: 'XLiteral', ...createSyntheticLocation(), parent: null as any, value};
+    }
+
+    /**
+     * Parse the expression in the context of text mustache.
+     * @param code The source code of expression, e.g. `item.name`.
+     */
+    function expression(code: string): XExpression {
+        const [mustache] = parseSnippet(`<view>{{${code}}}</view>`, 'expression', code, getDialect()).children;
+        if (mustache == null || mustache.type !== 'XMustache' || mustache.value.expression == null) {
+            throw new Error(`The code of expression is invalid: ${code}`);
+        }
+        return mustache.value;
+    }
+
+    /**
+     * Create the mustache.
+     * @param value The expression, or the source code of expression.
+     * @param binding The binding of mustache, `one-way` for `{{}}` and `two-way` for `{= =}`.
+     */
+    function mustache(value: XExpression | string, binding: MustacheBinding = 'one-way'): XMustache {
+        const node: XMustache = {
+            type: 'XMustache',
+            ...createSyntheticLocation(),
+            parent: null as any,
+            binding,
+            startToken: createToken('XMustacheStart', binding === 'two-way' ? '{=' : '{{'),
+            endToken: createToken('XMustacheEnd', binding === 'two-way' ? '=}' : '}}'),
+            value: typeof value === 'string' ? expression(value) : value
+        };
+        node.value.parent = node;
+        return node;
+    }
+
+    /**
+     * Parse the attribute value in the context of the attribute.
+     * @param rawName The raw name of attribute or directive.
+     * @param value The source text of value.
+     * @param dialect The dialect of the attribute or directive.
+     */
+    function parseAttributeValue(rawName: string, value: string, dialect: Dialect): XAttribute['value'] {
+        const quote = value.includes('"') ? '\'' : '"';
+        const code = `<view ${rawName}=${quote}${value}${quote}/>`;
+        const [parsed] = parseSnippet(code, 'value', value, dialect).startTag.attributes;
+        return parsed.value;
+    }
+
+    /**
+     * Create the attribute.
+     * @param rawName The raw name of attribute.
+     * @param value The value, omit it for the attribute without value, e.g. `hidden`.
+     */
+    function attribute(rawName: string, value?: AttributeBuilderValue): XAttribute {
+        const node: XAttribute = {
+            type: 'XAttribute',
+            ...createSyntheticLocation(),
+            parent: null as any,
+            key: null as any,
+            value: value == null ? [] : typeof value === 'string' ? parseAttributeValue(rawName, value, getDialect()) : value
+        };
+        const key: XIdentifier = {
+            type: 'XIdentifier',
+            ...createSyntheticLocation(),
+            parent: node,
+            name: rawName.toLowerCase(),
+            rawName
+        };
+        node.key = key;
+        node.value.forEach(part => {
+            part.parent = node;
+        });
+        return node;
+    }
+
+    /**
+     * Create the directive, the value is parsed in the context of the directive.
+     * The control directive name without prefix gets the prefix of the dialect, e.g. `if` is `s-if` by default
+     * and `wx:if` for `wxml`, because the builders don't know the document where the directive is inserted.
+     * @param name The directive name, e.g. `if`, or the raw name, e.g. `s-if`, `wx:if`, `bind:tap`.
+     * @param value The expression, or the source text of directive value, e.g. `{{show}}`, `item in list`, `onTap`.
+     * @param dialectName The dialect of the control directive name without prefix, `swan` by default.
+     */
+    function directive(name: string, value?: XExpression | string, dialectName?: DialectName): XDirective {
+        const rawName = findDirectiveDialect(name) ? name : `${getDialect(dialectName).directivePrefix}${name}`;
+        const dialect = findDirectiveDialect(rawName);
+        if (dialect == null) {
+            throw new Error(`The name of directive is invalid: ${name}`);
+        }
+
+        const node: XDirective = {
+            type: 'XDirective',
+            ...createSyntheticLocation(),
+            parent: null as any,
+            key: null as any,
+            value: []
+        };
+        node.key = createDirectiveKey(rawName, node, dialect);
+        if (typeof value === 'string') {
+            node.value = parseAttributeValue(rawName, value, dialect);
+        }
+        else if (value != null) {
+            // the loop expression is not in mustache, e.g. `s-for="item in list"`
+            node.value = [
+                value.expression && value.expression.type === 'SwanForExpression' ? value : mustache(value)
+            ];
+        }
+        node.value.forEach(part => {
+            part.parent = node;
+        });
+        return node;
+    }
+
+    /**
+     * Create the element with its start tag, attributes, children and end tag.
+     * @param rawName The raw name of element, e.g. `view`.
+     * @param options The attributes and children.
+     */
+    function element(rawName: string, options: ElementBuilderOptions = {}): XElement {
+        const attrs = options.attrs || [];
+        const attributes = Array.isArray(attrs)
+            ? attrs
+            : Object.keys(attrs).map(name => {
+                const value = attrs[name];
+                return findDirectiveDialect(name)
+                    ? directive(name, value === true ? undefined : value)
+                    : attribute(name, value === true ? undefined : value);
+            });
+        const children = (options.children || []).map(child => (typeof child === 'string' ? text(child) : child));
+        const selfClosing = options.selfClosing != null ? options.selfClosing : !children.length;
+
+        const node: XElement = {
+            type: 'XElement',
+            ...createSyntheticLocation(),
+            parent: null as any,
+            name: rawName.toLowerCase(),
+            rawName,
+            startTag: null as any,
+            children,
+            variables: [],
+            endTag: null
+        };
+        const startTag: XStartTag = {
+            type: 'XStartTag',
+            ...createSyntheticLocation(),
+            parent: node,
+            selfClosing,
+            attributes
+        };
+        const endTag: XEndTag | null = selfClosing ? null : {type: 'XEndTag', ...createSyntheticLocation(), parent: node};
+        node.startTag = startTag;
+        node.endTag = endTag;
+        attributes.forEach(item => {
+            item.parent = startTag;
+        });
+        children.forEach(child => {
+            child.parent = node;
+        });
+        defineElementVariables(node);
+        return node;
+    }
+
+    return {element, attribute, directive, text, literal, mustache, expression};
+}
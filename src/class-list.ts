@@ -0,0 +1,96 @@
+/**
+ * @file class 属性解析
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {Mustache, OffsetRange, XAttribute, XClassToken, XMustache} from '../types/ast';
+import {debug} from './common';
+import {LocationCalculator} from './location-calculator';
+
+/**
+ * Create the class token of the given range.
+ * @param code Whole source code text.
+ * @param locationCalculator The location calculator.
+ * @param range The range of the token.
+ * @param mustaches The mustaches of the attribute value.
+ */
+function createClassToken(
+    code: string,
+    locationCalculator: LocationCalculator,
+    range: OffsetRange,
+    mustaches: (XMustache | Mustache)[]
+): XClassToken {
+    const expressions = mustaches.filter(mustache => mustache.range[0] >= range[0] && mustache.range[1] <= range[1]);
+    return {
+        kind: expressions.length ? 'dynamic' : 'static',
+        text: code.slice(range[0], range[1]),
+        range,
+        loc: {
+            start: locationCalculator.getLocation(range[0]),
+            end: locationCalculator.getLocation(range[1])
+        },
+        expressions
+    };
+}
+
+/**
+ * Parse the class attribute into class tokens, e.g. `class="a {{active ? 'on' : ''}} b-{{type}}"`.
+ * The whitespaces in mustaches don't separate the tokens.
+ * @param code Whole source code text.
+ * @param locationCalculator The location calculator.
+ * @param node The attribute node. This function sets the `classList` property of this node.
+ */
+export function processClassAttribute(
+    code: string,
+    locationCalculator: LocationCalculator,
+    node: XAttribute
+): void {
+    debug('[template] parse class attribute %j', node.range);
+    const classList: XClassToken[] = [];
+    node.classList = classList;
+    if (!node.value.length) {
+        return;
+    }
+
+    const mustaches = node.value.filter(
+        value => value.type === 'XMustache' || value.type === 'Mustache'
+    ) as (XMustache | Mustache)[];
+    const end = node.value[node.value.length - 1].range[1];
+    let start = -1;
+
+    for (let i = node.value[0].range[0]; i <= end; i++) {
+        const mustache = mustaches.find(mustache => mustache.range[0] === i);
+        if (mustache) {
+            start = start === -1 ? i : start;
+            i = mustache.range[1] - 1;
+        }
+        else if (i === end || /\s/.test(code[i])) {
+            if (start !== -1) {
+                classList.push(createClassToken(code, locationCalculator, [start, i], mustaches));
+                start = -1;
+            }
+        }
+        else if (start === -1) {
+            start = i;
+        }
+    }
+}
+
+/**
+ * Find the duplicate static class names.
+ * @param classList The class tokens.
+ * @returns The duplicate tokens except the first occurrence.
+ */
+export function findDuplicateClasses(classList: XClassToken[]): XClassToken[] {
+    const names = new Set<string>();
+    return classList.filter(token => {
+        if (token.kind !== 'static') {
+            return false;
+        }
+        if (names.has(token.text)) {
+            return true;
+        }
+        names.add(token.text);
+        return false;
+    });
+}
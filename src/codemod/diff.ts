@@ -0,0 +1,123 @@
+/**
+ * @file 文本差异
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+/**
+ * The line of diff, ` ` for the common line, `-` for the removed line and `+` for the added line.
+ */
+interface DiffLine {
+    type: ' ' | '-' | '+';
+    text: string;
+    oldLine: number;
+    newLine: number;
+}
+
+const CONTEXT_LINES = 3;
+
+/**
+ * Diff the lines by the longest common subsequence, the common prefix and suffix are skipped.
+ * @param oldLines The old lines.
+ * @param newLines The new lines.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+        start++;
+    }
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    // lengths[i][j] is the length of common subsequence of `oldLines[i:oldEnd]` and `newLines[j:newEnd]`
+    const lengths: number[][] = [];
+    for (let i = oldEnd; i >= start; i--) {
+        lengths[i] = [];
+        for (let j = newEnd; j >= start; j--) {
+            lengths[i][j] = i === oldEnd || j === newEnd
+                ? 0
+                : oldLines[i] === newLines[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    const push = (type: DiffLine['type'], text: string, i: number, j: number) => {
+        result.push({type, text, oldLine: i + 1, newLine: j + 1});
+    };
+    for (let i = 0; i < start; i++) {
+        push(' ', oldLines[i], i, i);
+    }
+    let i = start;
+    let j = start;
+    while (i < oldEnd || j < newEnd) {
+        if (i < oldEnd && j < newEnd && oldLines[i] === newLines[j]) {
+            push(' ', oldLines[i], i++, j++);
+        }
+        else if (j === newEnd || (i < oldEnd && lengths[i + 1][j] >= lengths[i][j + 1])) {
+            push('-', oldLines[i], i++, j);
+        }
+        else {
+            push('+', newLines[j], i, j++);
+        }
+    }
+    for (; i < oldLines.length; i++, j++) {
+        push(' ', oldLines[i], i, j);
+    }
+    return result;
+}
+
+/**
+ * Split the code into lines, the line break at the end of code doesn't start a new line.
+ * @param code The source code.
+ */
+function splitLines(code: string): string[] {
+    return (code.endsWith('\n') ? code.slice(0, -1) : code).split('\n');
+}
+
+/**
+ * Create the unified diff of the file, the hunks have 3 lines of context.
+ * @param filePath The file path in the diff header.
+ * @param oldCode The old source code.
+ * @param newCode The new source code.
+ * @returns The diff, or empty string if the code is not changed.
+ */
+export function createUnifiedDiff(filePath: string, oldCode: string, newCode: string): string {
+    if (oldCode === newCode) {
+        return '';
+    }
+    const lines = diffLines(splitLines(oldCode), splitLines(newCode));
+    const output = [`--- ${filePath}`, `+++ ${filePath}`];
+
+    let index = 0;
+    while (index < lines.length) {
+        const changeIndex = lines.findIndex((line, i) => i >= index && line.type !== ' ');
+        if (changeIndex === -1) {
+            break;
+        }
+
+        // extend the hunk until the next change is far away from the last change
+        const start = Math.max(index, changeIndex - CONTEXT_LINES);
+        let end = changeIndex;
+        for (let i = changeIndex; i < lines.length && i - end <= CONTEXT_LINES * 2; i++) {
+            if (lines[i].type !== ' ') {
+                end = i;
+            }
+        }
+        end = Math.min(lines.length, end + CONTEXT_LINES + 1);
+
+        const hunk = lines.slice(start, end);
+        const oldCount = hunk.filter(line => line.type !== '+').length;
+        const newCount = hunk.filter(line => line.type !== '-').length;
+        const oldStart = oldCount ? hunk[0].oldLine : hunk[0].oldLine - 1;
+        const newStart = newCount ? hunk[0].newLine : hunk[0].newLine - 1;
+        output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        hunk.forEach(line => output.push(line.type + line.text));
+        index = end;
+    }
+    return output.join('\n') + '\n';
+}
@@ -0,0 +1,90 @@
+/**
+ * @file 文件匹配
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {findTemplateFiles} from '../project';
+
+const GLOB_CHARS = /[*?{[]/;
+
+/**
+ * Convert the glob pattern to regular expression, `**` matches any directories, `*` and `?` don't match `/`.
+ * @param pattern The glob pattern with `/` separators.
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            const slash = pattern[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        }
+        else if (char === '*') {
+            source += '[^/]*';
+        }
+        else if (char === '?') {
+            source += '[^/]';
+        }
+        else if (char === '{') {
+            const end = pattern.indexOf('}', i);
+            if (end === -1) {
+                source += '\\{';
+                continue;
+            }
+            const choices = pattern.slice(i + 1, end).split(',');
+            source += `(?:${choices.map(choice => globToRegExp(choice).source.slice(1, -1)).join('|')})`;
+            i = end;
+        }
+        else {
+            source += char.replace(/[\\^$.+()|[\]{}]/, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Split the pattern into the base directory without glob characters and the rest pattern.
+ * @param pattern The glob pattern with `/` separators.
+ */
+function splitGlobBase(pattern: string): [string, string] {
+    const parts = pattern.split('/');
+    const index = parts.findIndex(part => GLOB_CHARS.test(part));
+    return [parts.slice(0, index).join('/') || '.', parts.slice(index).join('/')];
+}
+
+/**
+ * Find the template files of all dialects by the glob patterns, `node_modules` and hidden directories are skipped.
+ * @param patterns The glob patterns or paths of files and directories.
+ * @param cwd The directory to resolve the patterns.
+ * @returns The sorted absolute file paths.
+ */
+export function findFiles(patterns: string[], cwd: string): string[] {
+    const files = new Set<string>();
+    for (const pattern of patterns.map(item => item.replace(/\\/g, '/'))) {
+        if (!GLOB_CHARS.test(pattern)) {
+            const filePath = path.resolve(cwd, pattern);
+            const stat = fs.existsSync(filePath) ? fs.statSync(filePath) : null;
+            if (stat && stat.isDirectory()) {
+                findTemplateFiles(filePath).forEach(file => files.add(file));
+            }
+            else if (stat) {
+                files.add(filePath);
+            }
+            continue;
+        }
+
+        const [base, rest] = splitGlobBase(pattern);
+        const baseDir = path.resolve(cwd, base);
+        const regexp = globToRegExp(rest);
+        if (!fs.existsSync(baseDir)) {
+            continue;
+        }
+        findTemplateFiles(baseDir)
+            .filter(file => regexp.test(path.relative(baseDir, file).replace(/\\/g, '/')))
+            .forEach(file => files.add(file));
+    }
+    return Array.from(files).sort();
+}
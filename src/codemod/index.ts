@@ -0,0 +1,96 @@
+/**
+ * @file 批量模板转换
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {XDocument} from '../../types/ast';
+import {
+    CodemodFileResult, CodemodOptions, CodemodSummary, CodemodTransform
+} from '../../types/codemod';
+import {ParserOptions} from '../../types/parser';
+import {debug} from '../common';
+import TokenStore from '../parser-services/external/token-store';
+import {print} from '../printer';
+import {isSyntaxError} from '../swan-lang';
+import Transformer from '../transform';
+import {createUnifiedDiff} from './diff';
+import {findFiles} from './glob';
+
+type ParseFunction = (code: string, options: ParserOptions) => XDocument;
+type CreateTransformer = (document: XDocument, options: ParserOptions) => Transformer;
+
+/**
+ * Load the transform function from the module, `module.exports` or `exports.default`.
+ * @param modulePath The path of the transform module.
+ * @param cwd The directory to resolve the module path.
+ */
+function loadTransform(modulePath: string, cwd: string): CodemodTransform {
+    const exported = require(path.resolve(cwd, modulePath));
+    const transform = typeof exported === 'function' ? exported : exported && exported.default;
+    if (typeof transform !== 'function') {
+        throw new Error(`The transform module should export a function: ${modulePath}`);
+    }
+    return transform;
+}
+
+/**
+ * Run the transform over the template files, each file is parsed, transformed and printed.
+ * @param options The codemod options.
+ * @param parse The function to parse template files.
+ * @param createTransformer The function to create the transformer of document.
+ */
+export function transformFiles(
+    options: CodemodOptions,
+    parse: ParseFunction,
+    createTransformer: CreateTransformer
+): CodemodSummary {
+    const cwd = options.cwd || process.cwd();
+    const transform = typeof options.transform === 'string'
+        ? loadTransform(options.transform, cwd)
+        : options.transform;
+    const readFile = options.readFile || ((filePath: string) => fs.readFileSync(filePath, 'utf8'));
+    const writeFile = options.writeFile || ((filePath: string, code: string) => fs.writeFileSync(filePath, code));
+
+    const files: CodemodFileResult[] = [];
+    for (const filePath of findFiles(options.patterns, cwd)) {
+        const relativePath = path.relative(cwd, filePath).replace(/\\/g, '/');
+        try {
+            const code = readFile(filePath);
+            const parserOptions = Object.assign({}, options.parserOptions, {filePath}) as ParserOptions;
+            const document = parse(code, parserOptions);
+            const error = document.errors.find(isSyntaxError);
+            if (error) {
+                throw error;
+            }
+
+            const result = transform(
+                {filePath, code, document, tokenStore: new TokenStore(document.tokens, document.comments)},
+                {print, transformer: createTransformer(document, parserOptions)}
+            );
+            const newCode = typeof result === 'string' ? result : print(document);
+            if (result === false || newCode === code) {
+                files.push({filePath, status: 'unchanged'});
+                continue;
+            }
+
+            if (!options.dry) {
+                writeFile(filePath, newCode);
+            }
+            const diff = createUnifiedDiff(relativePath, code, newCode);
+            files.push({filePath, status: 'changed', code: newCode, diff});
+        }
+        catch (e) {
+            debug('[codemod] failed to transform %s: %s', relativePath, (e as Error).message);
+            files.push({filePath, status: 'failed', error: e as Error});
+        }
+    }
+
+    return {
+        files,
+        changed: files.filter(file => file.status === 'changed').length,
+        unchanged: files.filter(file => file.status === 'unchanged').length,
+        failed: files.filter(file => file.status === 'failed').length
+    };
+}
@@ -4,7 +4,8 @@
  */
 
 import debugFactory from 'debug';
-import {ErrorCode, Location } from '../types/ast';
+import {ErrorCode, Location, XEndTagRecovery} from '../types/ast';
+import {ParserOptions} from '../types/parser';
 export const debug = debugFactory('@swanide/swan-eslint-parser');
 
 function isAcornStyleParseError(
@@ -29,6 +30,8 @@ export class ParseError extends SyntaxError {
 
     public column: number;
 
+    public recovery?: XEndTagRecovery;
+
     /**
      * Create new parser error object.
      * @param code The error code. See also: https://html.spec.whatwg.org/multipage/parsing.html#parse-errors
@@ -102,3 +105,46 @@ export class ParseError extends SyntaxError {
         );
     }
 }
+
+/**
+ * Get the edit distance of two strings.
+ * @param a The first string.
+ * @param b The second string.
+ */
+export function getEditDistance(a: string, b: string): number {
+    let previous = Array.from({length: b.length + 1}, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Resolve the parser options with the default options.
+ * @param options The parser options.
+ */
+export function resolveParserOptions(options: ParserOptions): ParserOptions {
+    return Object.assign(
+        {
+            noOpenTag: false,
+            parseExpression: true,
+            script: {
+                parser: 'espree',
+                sourceType: 'module',
+                ecmaVersion: 2018,
+                range: true,
+                loc: true,
+                tokens: true,
+            }
+        },
+        options
+    );
+}
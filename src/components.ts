@@ -0,0 +1,533 @@
+/**
+ * @file 内置组件定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {ComponentAttributeSchema, ComponentSchema} from '../types/component';
+
+interface ComponentDefinition {
+    attributes?: Record<string, ComponentAttributeSchema>;
+    events?: string[];
+
+    /**
+     * whether the component can have children, default `true`
+     */
+    children?: boolean;
+
+    /**
+     * whether the common attributes and events are supported, default `true`
+     */
+    common?: boolean;
+}
+
+/**
+ * The attributes supported by all components.
+ */
+const COMMON_ATTRIBUTES: Record<string, ComponentAttributeSchema> = {
+    'id': {type: 'string'},
+    'class': {type: 'string'},
+    'style': {type: 'string'},
+    'hidden': {type: 'boolean', default: false}
+};
+
+/**
+ * The events supported by all components.
+ */
+const COMMON_EVENTS = [
+    'touchstart',
+    'touchmove',
+    'touchcancel',
+    'touchend',
+    'touchforcechange',
+    'tap',
+    'longtap',
+    'longpress',
+    'transitionend',
+    'animationstart',
+    'animationiteration',
+    'animationend'
+];
+
+const HOVER_ATTRIBUTES: Record<string, ComponentAttributeSchema> = {
+    'hover-class': {type: 'string', default: 'none'},
+    'hover-stop-propagation': {type: 'boolean', default: false},
+    'hover-start-time': {type: 'number', default: 50},
+    'hover-stay-time': {type: 'number', default: 400}
+};
+
+/**
+ * The built-in components, see https://smartprogram.baidu.com/docs/develop/component/view/
+ */
+const COMPONENTS: Record<string, ComponentDefinition> = {
+    // view containers
+    'view': {
+        attributes: HOVER_ATTRIBUTES
+    },
+    'scroll-view': {
+        attributes: {
+            'scroll-x': {type: 'boolean', default: false},
+            'scroll-y': {type: 'boolean', default: false},
+            'upper-threshold': {type: 'number', default: 50},
+            'lower-threshold': {type: 'number', default: 50},
+            'scroll-top': {type: 'number'},
+            'scroll-left': {type: 'number'},
+            'scroll-into-view': {type: 'string'},
+            'scroll-with-animation': {type: 'boolean', default: false},
+            'enable-back-to-top': {type: 'boolean', default: false}
+        },
+        events: ['scrolltoupper', 'scrolltolower', 'scroll']
+    },
+    'swiper': {
+        attributes: {
+            'indicator-dots': {type: 'boolean', default: false},
+            'indicator-color': {type: 'color', default: 'rgba(0, 0, 0, .3)'},
+            'indicator-active-color': {type: 'color', default: '#333'},
+            'autoplay': {type: 'boolean', default: false},
+            'current': {type: 'number', default: 0},
+            'current-item-id': {type: 'string'},
+            'interval': {type: 'number', default: 5000},
+            'duration': {type: 'number', default: 500},
+            'circular': {type: 'boolean', default: false},
+            'vertical': {type: 'boolean', default: false},
+            'previous-margin': {type: 'string', default: '0px'},
+            'next-margin': {type: 'string', default: '0px'},
+            'display-multiple-items': {type: 'number', default: 1}
+        },
+        events: ['change', 'animationfinish']
+    },
+    'swiper-item': {
+        attributes: {
+            'item-id': {type: 'string'}
+        }
+    },
+    'movable-area': {},
+    'movable-view': {
+        attributes: {
+            'direction': {type: 'string', default: 'none', values: ['all', 'vertical', 'horizontal', 'none']},
+            'inertia': {type: 'boolean', default: false},
+            'out-of-bounds': {type: 'boolean', default: false},
+            'x': {type: 'number'},
+            'y': {type: 'number'},
+            'damping': {type: 'number', default: 20},
+            'friction': {type: 'number', default: 2},
+            'disabled': {type: 'boolean', default: false}
+        },
+        events: ['change']
+    },
+    'cover-view': {
+        attributes: {
+            'scroll-top': {type: 'number'}
+        }
+    },
+    'cover-image': {
+        attributes: {
+            'src': {type: 'string', required: true}
+        },
+        events: ['load', 'error'],
+        children: false
+    },
+
+    // basic contents
+    'icon': {
+        attributes: {
+            'type': {
+                type: 'string',
+                required: true,
+                values: ['success', 'info', 'warn', 'waiting', 'success_no_circle', 'clear', 'search', 'personal',
+                    'setting', 'top', 'close', 'cancel', 'download', 'checkboxSelected', 'radioSelected',
+                    'radioUnselect', 'loadingGrey']
+            },
+            'size': {type: 'number', default: 23},
+            'color': {type: 'color'}
+        },
+        children: false
+    },
+    'text': {
+        attributes: {
+            'selectable': {type: 'boolean', default: false},
+            'space': {type: 'string', values: ['ensp', 'emsp', 'nbsp']},
+            'decode': {type: 'boolean', default: false}
+        }
+    },
+    'rich-text': {
+        attributes: {
+            'nodes': {type: 'any', default: '[]'},
+            'selectable': {type: 'boolean', default: false}
+        },
+        children: false
+    },
+    'progress': {
+        attributes: {
+            'percent': {type: 'number'},
+            'show-info': {type: 'boolean', default: false},
+            'stroke-width': {type: 'number', default: 2},
+            'color': {type: 'color', default: '#e0e0e0'},
+            'activeColor': {type: 'color', default: '#3c76ff'},
+            'backgroundColor': {type: 'color', default: '#e0e0e0'},
+            'active': {type: 'boolean', default: false},
+            'active-mode': {type: 'string', default: 'backwards', values: ['backwards', 'forwards']}
+        },
+        children: false
+    },
+
+    // form components
+    'button': {
+        attributes: {
+            'size': {type: 'string', default: 'default', values: ['default', 'mini']},
+            'type': {type: 'string', default: 'default', values: ['primary', 'default', 'warn']},
+            'plain': {type: 'boolean', default: false},
+            'disabled': {type: 'boolean', default: false},
+            'loading': {type: 'boolean', default: false},
+            'form-type': {type: 'string', values: ['submit', 'reset']},
+            'open-type': {
+                type: 'string',
+                values: ['share', 'getUserInfo', 'getPhoneNumber', 'openSetting', 'contact', 'chooseAddress',
+                    'chooseInvoiceTitle', 'login', 'subscribe']
+            },
+            ...HOVER_ATTRIBUTES,
+            'hover-class': {type: 'string', default: 'button-hover'},
+            'hover-start-time': {type: 'number', default: 20},
+            'hover-stay-time': {type: 'number', default: 70}
+        },
+        events: ['getuserinfo', 'getphonenumber', 'opensetting', 'contact', 'chooseaddress', 'chooseinvoicetitle',
+            'login', 'subscribe']
+    },
+    'checkbox-group': {
+        events: ['change']
+    },
+    'checkbox': {
+        attributes: {
+            'value': {type: 'string'},
+            'disabled': {type: 'boolean', default: false},
+            'checked': {type: 'boolean', default: false},
+            'color': {type: 'color', default: '#3c76ff'}
+        }
+    },
+    'form': {
+        attributes: {
+            'report-submit': {type: 'boolean', default: false},
+            'report-type': {type: 'string', default: 'default', values: ['default', 'subscribe']},
+            'template-id': {type: 'any'},
+            'subscribe-id': {type: 'string'}
+        },
+        events: ['submit', 'reset']
+    },
+    'input': {
+        attributes: {
+            'value': {type: 'string'},
+            'type': {type: 'string', default: 'text', values: ['text', 'number', 'idcard', 'digit']},
+            'password': {type: 'boolean', default: false},
+            'placeholder': {type: 'string'},
+            'placeholder-style': {type: 'string'},
+            'placeholder-class': {type: 'string', default: 'input-placeholder'},
+            'disabled': {type: 'boolean', default: false},
+            'maxlength': {type: 'number', default: 140},
+            'cursor-spacing': {type: 'number', default: 0},
+            'focus': {type: 'boolean', default: false},
+            'confirm-type': {type: 'string', default: 'done', values: ['send', 'search', 'next', 'go', 'done']},
+            'confirm-hold': {type: 'boolean', default: false},
+            'cursor': {type: 'number'},
+            'selection-start': {type: 'number', default: -1},
+            'selection-end': {type: 'number', default: -1},
+            'adjust-position': {type: 'boolean', default: true}
+        },
+        events: ['input', 'focus', 'blur', 'confirm'],
+        children: false
+    },
+    'label': {
+        attributes: {
+            'for': {type: 'string'}
+        }
+    },
+    'picker': {
+        attributes: {
+            'mode': {type: 'string', default: 'selector', values: ['selector', 'multiSelector', 'time', 'date', 'region']},
+            'disabled': {type: 'boolean', default: false},
+            'range': {type: 'array', default: '[]'},
+            'range-key': {type: 'string'},
+            'value': {type: 'any'},
+            'start': {type: 'string'},
+            'end': {type: 'string'},
+            'fields': {type: 'string', default: 'day', values: ['year', 'month', 'day']},
+            'custom-item': {type: 'string'},
+            'title': {type: 'string'}
+        },
+        events: ['change', 'cancel', 'columnchange']
+    },
+    'picker-view': {
+        attributes: {
+            'value': {type: 'array'},
+            'indicator-style': {type: 'string'},
+            'indicator-class': {type: 'string'},
+            'mask-style': {type: 'string'},
+            'mask-class': {type: 'string'},
+            'title': {type: 'string'}
+        },
+        events: ['change']
+    },
+    'picker-view-column': {},
+    'radio-group': {
+        events: ['change']
+    },
+    'radio': {
+        attributes: {
+            'value': {type: 'string'},
+            'checked': {type: 'boolean', default: false},
+            'disabled': {type: 'boolean', default: false},
+            'color': {type: 'color', default: '#3c76ff'}
+        }
+    },
+    'slider': {
+        attributes: {
+            'min': {type: 'number', default: 0},
+            'max': {type: 'number', default: 100},
+            'step': {type: 'number', default: 1},
+            'disabled': {type: 'boolean', default: false},
+            'value': {type: 'number', default: 0},
+            'backgroundColor': {type: 'color', default: '#cccccc'},
+            'block-size': {type: 'number', default: 24},
+            'block-color': {type: 'color', default: '#ffffff'},
+            'activeColor': {type: 'color', default: '#3c76ff'},
+            'show-value': {type: 'boolean', default: false}
+        },
+        events: ['change', 'changing'],
+        children: false
+    },
+    'switch': {
+        attributes: {
+            'checked': {type: 'boolean', default: false},
+            'disabled': {type: 'boolean', default: false},
+            'type': {type: 'string', default: 'switch', values: ['switch', 'checkbox']},
+            'color': {type: 'color', default: '#3c76ff'}
+        },
+        events: ['change'],
+        children: false
+    },
+    'textarea': {
+        attributes: {
+            'value': {type: 'string'},
+            'placeholder': {type: 'string'},
+            'placeholder-style': {type: 'string'},
+            'placeholder-class': {type: 'string', default: 'textarea-placeholder'},
+            'disabled': {type: 'boolean', default: false},
+            'maxlength': {type: 'number', default: 140},
+            'auto-focus': {type: 'boolean', default: false},
+            'focus': {type: 'boolean', default: false},
+            'auto-height': {type: 'boolean', default: false},
+            'fixed': {type: 'boolean', default: false},
+            'cursor-spacing': {type: 'number', default: 0},
+            'cursor': {type: 'number', default: -1},
+            'show-confirm-bar': {type: 'boolean', default: true},
+            'selection-start': {type: 'number', default: -1},
+            'selection-end': {type: 'number', default: -1},
+            'adjust-position': {type: 'boolean', default: true}
+        },
+        events: ['focus', 'blur', 'linechange', 'input', 'confirm'],
+        children: false
+    },
+
+    // navigation
+    'navigator': {
+        attributes: {
+            'target': {type: 'string', default: 'self', values: ['self', 'miniProgram']},
+            'url': {type: 'string'},
+            'open-type': {
+                type: 'string',
+                default: 'navigate',
+                values: ['navigate', 'redirect', 'switchTab', 'navigateBack', 'reLaunch', 'exit']
+            },
+            'delta': {type: 'number', default: 1},
+            'app-id': {type: 'string'},
+            'path': {type: 'string'},
+            'extra-data': {type: 'object'},
+            'version': {type: 'string', default: 'release', values: ['develop', 'trial', 'release']},
+            ...HOVER_ATTRIBUTES,
+            'hover-class': {type: 'string', default: 'navigator-hover'},
+            'hover-stay-time': {type: 'number', default: 600}
+        },
+        events: ['success', 'fail', 'complete']
+    },
+
+    // media
+    'image': {
+        attributes: {
+            'src': {type: 'string'},
+            'mode': {
+                type: 'string',
+                default: 'scaleToFill',
+                values: ['scaleToFill', 'aspectFit', 'aspectFill', 'widthFix', 'top', 'bottom', 'center', 'left',
+                    'right', 'top left', 'top right', 'bottom left', 'bottom right']
+            },
+            'lazy-load': {type: 'boolean', default: false},
+            'webp': {type: 'boolean', default: false},
+            'image-menu-prevent': {type: 'boolean', default: false}
+        },
+        events: ['error', 'load'],
+        children: false
+    },
+    'video': {
+        attributes: {
+            'src': {type: 'string', required: true},
+            'title': {type: 'string'},
+            'initial-time': {type: 'number'},
+            'controls': {type: 'boolean', default: true},
+            'autoplay': {type: 'boolean', default: false},
+            'loop': {type: 'boolean', default: false},
+            'muted': {type: 'boolean', default: false},
+            'objectFit': {type: 'string', default: 'contain', values: ['contain', 'cover', 'fill']},
+            'poster': {type: 'string'},
+            'page-gesture': {type: 'boolean', default: false},
+            'direction': {type: 'number'},
+            'show-progress': {type: 'boolean', default: true},
+            'show-fullscreen-btn': {type: 'boolean', default: true},
+            'show-play-btn': {type: 'boolean', default: true},
+            'show-center-play-btn': {type: 'boolean', default: true},
+            'show-mute-btn': {type: 'boolean', default: false},
+            'enable-progress-gesture': {type: 'boolean', default: true}
+        },
+        events: ['play', 'pause', 'ended', 'timeupdate', 'fullscreenchange', 'waiting', 'error']
+    },
+    'camera': {
+        attributes: {
+            'device-position': {type: 'string', default: 'back', values: ['front', 'back']},
+            'flash': {type: 'string', default: 'auto', values: ['auto', 'on', 'off']}
+        },
+        events: ['stop', 'error']
+    },
+
+    // map and canvas
+    'map': {
+        attributes: {
+            'longitude': {type: 'number', required: true},
+            'latitude': {type: 'number', required: true},
+            'scale': {type: 'number', default: 16},
+            'markers': {type: 'array'},
+            'polyline': {type: 'array'},
+            'circles': {type: 'array'},
+            'controls': {type: 'array'},
+            'include-points': {type: 'array'},
+            'polygons': {type: 'array'},
+            'show-location': {type: 'boolean', default: false},
+            'enable-3D': {type: 'boolean', default: false},
+            'show-compass': {type: 'boolean', default: false},
+            'enable-overlooking': {type: 'boolean', default: false},
+            'enable-zoom': {type: 'boolean', default: true},
+            'enable-scroll': {type: 'boolean', default: true},
+            'enable-rotate': {type: 'boolean', default: false}
+        },
+        events: ['markertap', 'callouttap', 'controltap', 'regionchange', 'updated', 'poitap']
+    },
+    'canvas': {
+        attributes: {
+            'canvas-id': {type: 'string', required: true},
+            'disable-scroll': {type: 'boolean', default: false}
+        },
+        events: ['error']
+    },
+
+    // open abilities
+    'web-view': {
+        attributes: {
+            'src': {type: 'string'}
+        },
+        events: ['message'],
+        children: false,
+        common: false
+    },
+    'open-data': {
+        attributes: {
+            'type': {type: 'string', required: true, values: ['userNickName', 'userAvatarUrl', 'userGender']}
+        },
+        children: false
+    },
+
+    // template syntax
+    'block': {
+        common: false
+    },
+    'template': {
+        attributes: {
+            'name': {type: 'string'},
+            'is': {type: 'string'},
+            'data': {type: 'any'}
+        },
+        common: false
+    },
+    'slot': {
+        attributes: {
+            'name': {type: 'string'}
+        },
+        common: false
+    },
+    'import': {
+        attributes: {
+            'src': {type: 'string', required: true}
+        },
+        children: false,
+        common: false
+    },
+    'include': {
+        attributes: {
+            'src': {type: 'string', required: true}
+        },
+        children: false,
+        common: false
+    },
+    'import-sjs': {
+        attributes: {
+            'src': {type: 'string'},
+            'module': {type: 'string', required: true}
+        },
+        common: false
+    },
+    'filter': {
+        attributes: {
+            'src': {type: 'string'},
+            'module': {type: 'string', required: true}
+        },
+        common: false
+    }
+};
+
+const schemas = new Map<string, ComponentSchema>();
+
+/**
+ * Create the schema of component, the common attributes and events are merged.
+ * @param name The component name.
+ * @param definition The component definition.
+ */
+function createComponentSchema(name: string, definition: ComponentDefinition): ComponentSchema {
+    const common = definition.common !== false;
+    return {
+        name,
+        attributes: common
+            ? {...COMMON_ATTRIBUTES, ...definition.attributes}
+            : {...definition.attributes},
+        events: common
+            ? [...COMMON_EVENTS, ...definition.events || []]
+            : [...definition.events || []],
+        children: definition.children !== false
+    };
+}
+
+/**
+ * Get the schema of the built-in component.
+ * @param name The component name, e.g. `scroll-view`.
+ * @returns The component schema, or `null` if it is not a built-in component.
+ */
+export function getComponentSchema(name: string): ComponentSchema | null {
+    if (!Object.prototype.hasOwnProperty.call(COMPONENTS, name)) {
+        return null;
+    }
+    if (!schemas.has(name)) {
+        schemas.set(name, createComponentSchema(name, COMPONENTS[name]));
+    }
+    return schemas.get(name);
+}
+
+/**
+ * Get the names of all built-in components.
+ */
+export function getComponentNames(): string[] {
+    return Object.keys(COMPONENTS);
+}
@@ -0,0 +1,117 @@
+/**
+ * @file 条件语句分支链
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {
+    HasLocation, XConditionalKind, XDirective, XDocument, XElement
+} from '../types/ast';
+import {isControlDirectiveKey} from './dialect';
+import {reportError} from './swan-lang';
+
+/**
+ * The conditional directives in priority order.
+ */
+const CONDITIONAL_DIRECTIVES: XConditionalKind[] = ['if', 'elif', 'else'];
+
+/**
+ * Get the conditional directive of the given element.
+ * @param element The element to get.
+ * @returns The `s-if`, `s-elif` or `s-else` directive.
+ */
+function getConditionalDirective(element: XElement): XDirective | null {
+    for (const name of CONDITIONAL_DIRECTIVES) {
+        const directive = element.startTag.attributes.find(
+            attr => attr.type === 'XDirective' && isControlDirectiveKey(attr.key) && attr.key.name === name
+        );
+        if (directive) {
+            return directive as XDirective;
+        }
+    }
+    return null;
+}
+
+/**
+ * Attach the chain to the element, it is not enumerable to avoid circular structure.
+ * @param chain The branch elements of the chain.
+ * @param directive The conditional directive of the element.
+ */
+function appendBranch(chain: XElement[], directive: XDirective): void {
+    const element = directive.parent.parent;
+    Object.defineProperty(element, 'conditional', {
+        value: {
+            chain,
+            index: chain.length,
+            kind: directive.key.name as XConditionalKind,
+            directive
+        },
+        enumerable: false,
+        configurable: true,
+        writable: true
+    });
+    chain.push(element);
+}
+
+/**
+ * Group the consecutive sibling branches of the given node.
+ * @param document The document to report errors.
+ * @param node The parent node of branches.
+ */
+function analyzeChildren(document: XDocument, node: XDocument | XElement): void {
+    let chain: XElement[] | null = null;
+    let closed = false;
+    let separator: HasLocation | null = null;
+
+    for (const child of node.children) {
+        if (child.type !== 'XElement') {
+            // whitespaces between branches are allowed
+            if (child.type === 'XText' && !child.value.trim()) {
+                continue;
+            }
+            if (separator == null) {
+                separator = child;
+            }
+            continue;
+        }
+
+        analyzeChildren(document, child);
+
+        const directive = getConditionalDirective(child);
+        const kind = directive && directive.key.name;
+        if (kind == null) {
+            chain = null;
+        }
+        else if (kind === 'if') {
+            chain = [];
+            closed = false;
+            appendBranch(chain, directive);
+        }
+        else if (chain == null) {
+            reportError(document, directive.key, 'x-orphan-conditional-branch');
+        }
+        else if (closed) {
+            reportError(
+                document,
+                directive.key,
+                kind === 'else' ? 'x-duplicate-conditional-else' : 'x-orphan-conditional-branch'
+            );
+        }
+        else {
+            // the author means to continue the chain, report the separator and keep going
+            if (separator != null) {
+                reportError(document, separator, 'x-invalid-conditional-sibling');
+            }
+            closed = kind === 'else';
+            appendBranch(chain, directive);
+        }
+        separator = null;
+    }
+}
+
+/**
+ * Group `s-if`, `s-elif` and `s-else` sibling elements into conditional chains.
+ * @param document The document to analyze.
+ */
+export function analyzeConditionalChains(document: XDocument): void {
+    analyzeChildren(document, document);
+}
@@ -0,0 +1,126 @@
+/**
+ * @file 模板方言定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as path from 'path';
+import {ControlDirectivePrefix, XDirectiveKey} from '../types/ast';
+import {Dialect, DialectName} from '../types/dialect';
+import {ParserOptions} from '../types/parser';
+
+/**
+ * The prefixes of event directives, they are the same in all dialects.
+ */
+const EVENT_DIRECTIVE_PREFIXES = 'bind:?|catch:?|capture-bind:?|capture-catch:?|mut-bind:?';
+
+/**
+ * The prefixes of event directives which must be followed by a valid event name.
+ */
+const INVALID_EVENT_DIRECTIVE_PREFIXES = 'bind:|catch:|capture-bind:|capture-catch:|mut-bind:';
+
+/**
+ * Create the dialect, the directive name patterns are created from the control directive prefix.
+ * @param name The dialect name.
+ * @param extension The extension name of template files.
+ * @param directivePrefix The prefix of control directives.
+ * @param scriptModule The tags, attributes and file extension name of script modules.
+ */
+function createDialect(
+    name: DialectName,
+    extension: string,
+    directivePrefix: ControlDirectivePrefix,
+    scriptModule: {tags: string[], name: string, src: string, extension: string}
+): Dialect {
+    return {
+        name,
+        extension,
+        directivePrefix,
+        scriptModuleTags: new Set(scriptModule.tags),
+        scriptModuleAttributes: {name: scriptModule.name, src: scriptModule.src},
+        scriptModuleExtension: scriptModule.extension,
+        voidTags: new Set(['include']),
+        rcdataTags: new Set(['textarea']),
+        directiveName: new RegExp(
+            `^(${directivePrefix}|${EVENT_DIRECTIVE_PREFIXES})(\\w(?:[\\w-]|\\.(?=[\\w-]))+)$`
+        ),
+        invalidDirectiveName: new RegExp(`^(${directivePrefix}|${INVALID_EVENT_DIRECTIVE_PREFIXES})`)
+    };
+}
+
+const DIALECTS: Record<DialectName, Dialect> = {
+    swan: createDialect('swan', '.swan', 's-', {
+        tags: ['filter', 'import-sjs'], name: 'module', src: 'src', extension: '.sjs'
+    }),
+    wxml: createDialect('wxml', '.wxml', 'wx:', {
+        tags: ['wxs'], name: 'module', src: 'src', extension: '.wxs'
+    }),
+    axml: createDialect('axml', '.axml', 'a:', {
+        tags: ['import-sjs'], name: 'name', src: 'from', extension: '.sjs'
+    }),
+    ttml: createDialect('ttml', '.ttml', 'tt:', {
+        tags: ['sjs'], name: 'module', src: 'src', extension: '.sjs'
+    }),
+    qml: createDialect('qml', '.qml', 'qq:', {
+        tags: ['qs'], name: 'module', src: 'src', extension: '.qs'
+    })
+};
+
+const CONTROL_DIRECTIVE_PREFIXES = new Set<string>(
+    Object.keys(DIALECTS).map(name => DIALECTS[name as DialectName].directivePrefix)
+);
+
+/**
+ * Get the dialect by name, the unknown name falls back to `swan`.
+ * @param name The dialect name, e.g. `document.xmlType`.
+ */
+export function getDialect(name?: string | null): Dialect {
+    return name != null && Object.prototype.hasOwnProperty.call(DIALECTS, name)
+        ? DIALECTS[name as DialectName]
+        : DIALECTS.swan;
+}
+
+/**
+ * Get all dialects, `swan` is the first.
+ */
+export function getDialects(): Dialect[] {
+    return Object.keys(DIALECTS).map(name => DIALECTS[name as DialectName]);
+}
+
+/**
+ * Find the dialect of the template file.
+ * @param filePath The file path.
+ * @returns The dialect, or `null` if the file is not a template file.
+ */
+export function findDialectByFilePath(filePath: string): Dialect | null {
+    const extension = path.extname(filePath).toLowerCase();
+    return getDialects().find(dialect => dialect.extension === extension) || null;
+}
+
+/**
+ * Check whether the file is a script module file, e.g. `.sjs`, `.wxs`.
+ * @param filePath The file path.
+ */
+export function isScriptModuleFile(filePath: string): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    return getDialects().some(dialect => dialect.scriptModuleExtension === extension);
+}
+
+/**
+ * Resolve the dialect name of parser options, the `dialect` option takes precedence over `filePath`.
+ * @param options The parser options.
+ */
+export function resolveDialectName(options: Partial<ParserOptions>): DialectName {
+    if (options.dialect != null) {
+        return getDialect(options.dialect).name;
+    }
+    const dialect = options.filePath ? findDialectByFilePath(options.filePath) : null;
+    return dialect ? dialect.name : 'swan';
+}
+
+/**
+ * Check whether the directive key is a control directive of any dialect, e.g. `s-if`, `wx:for`.
+ * @param key The directive key.
+ */
+export function isControlDirectiveKey(key: XDirectiveKey): boolean {
+    return CONTROL_DIRECTIVE_PREFIXES.has(key.prefix);
+}
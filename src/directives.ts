@@ -0,0 +1,137 @@
+/**
+ * @file 控制指令定义和检查
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {XAttributeValue, XDirective, XDocument} from '../types/ast';
+import {debug, getEditDistance, ParseError} from './common';
+import {isControlDirectiveKey} from './dialect';
+import {insertError, reportError, walkElements} from './swan-lang';
+
+/**
+ * The value shape of control directive.
+ * - `none`: no value, e.g. `s-else`
+ * - `expression`: an expression with or without mustache, e.g. `s-if="{{cond}}"`
+ * - `for`: the loop expression, e.g. `s-for="item, index in list"`
+ * - `identifier`: a variable name without mustache, e.g. `s-for-item="item"`
+ * - `key`: the property name of loop item, e.g. `s-key="id"`
+ */
+export type DirectiveValueShape = 'none' | 'expression' | 'for' | 'identifier' | 'key';
+
+/**
+ * The control directives without `s-` prefix.
+ */
+export const CONTROL_DIRECTIVES: Record<string, DirectiveValueShape> = {
+    'if': 'expression',
+    'elif': 'expression',
+    'else': 'none',
+    'for': 'for',
+    'for-items': 'for',
+    'for-item': 'identifier',
+    'for-index': 'identifier',
+    'key': 'key'
+};
+
+/**
+ * The max edit distance of suggestions.
+ */
+const MAX_SUGGESTION_DISTANCE = 2;
+
+/**
+ * Find the nearest control directive of the unknown name.
+ * @param name The unknown directive name without `s-` prefix.
+ * @returns The nearest directive name, or `null` if nothing is near enough.
+ */
+export function suggestDirective(name: string): string | null {
+    let suggestion: string | null = null;
+    let minDistance = MAX_SUGGESTION_DISTANCE + 1;
+    for (const candidate of Object.keys(CONTROL_DIRECTIVES)) {
+        const distance = getEditDistance(name, candidate);
+        if (distance < minDistance) {
+            suggestion = candidate;
+            minDistance = distance;
+        }
+    }
+    return suggestion;
+}
+
+/**
+ * Check whether the attribute value is empty, e.g. `s-else` or `s-else=""`.
+ * @param value The attribute value.
+ */
+function isEmptyValue(value: XAttributeValue): boolean {
+    return value.every(node => node.type === 'XLiteral' && !node.value.trim()
+        || node.type === 'XExpression' && node.expression == null && node.range[0] === node.range[1]);
+}
+
+/**
+ * Check whether the attribute value is a variable name without mustache.
+ * @param value The attribute value.
+ */
+function isIdentifierValue(value: XAttributeValue): boolean {
+    if (value.length !== 1) {
+        return false;
+    }
+    const [node] = value;
+    return node.type === 'XExpression'
+        ? node.expression != null && node.expression.type === 'Identifier'
+        : node.type === 'XLiteral' && /^\s*[A-Za-z_$][\w$]*\s*$/.test(node.value);
+}
+
+/**
+ * Check whether the directive value matches the expected shape.
+ * @param value The directive value.
+ * @param shape The expected shape.
+ */
+function isValidValue(value: XAttributeValue, shape: DirectiveValueShape): boolean {
+    switch (shape) {
+        case 'none':
+            return isEmptyValue(value);
+        case 'identifier':
+            return isIdentifierValue(value);
+        default:
+            return !isEmptyValue(value);
+    }
+}
+
+/**
+ * Report the unknown directive with the suggestion.
+ * @param document The document to report.
+ * @param directive The unknown directive.
+ */
+function reportUnknownDirective(document: XDocument, directive: XDirective): void {
+    const {key} = directive;
+    const suggestion = suggestDirective(key.name);
+    const message = suggestion != null
+        ? `Unknown directive '${key.rawName}', did you mean '${key.rawPrefix}${suggestion}'?`
+        : `Unknown directive '${key.rawName}'.`;
+    const error = new ParseError(
+        message,
+        'x-unknown-directive',
+        key.range[0],
+        key.loc.start.line,
+        key.loc.start.column
+    );
+    insertError(document, error);
+    debug('[swan] syntax error:', message);
+}
+
+/**
+ * Validate the control directives, report unknown directives and invalid values.
+ * @param document The document to validate.
+ */
+export function validateDirectives(document: XDocument): void {
+    walkElements(document, element => {
+        for (const attr of element.startTag.attributes) {
+            if (attr.type !== 'XDirective' || !isControlDirectiveKey(attr.key)) {
+                continue;
+            }
+            if (!Object.prototype.hasOwnProperty.call(CONTROL_DIRECTIVES, attr.key.name)) {
+                reportUnknownDirective(document, attr);
+            }
+            else if (!isValidValue(attr.value, CONTROL_DIRECTIVES[attr.key.name])) {
+                reportError(document, attr.value[0] || attr.key, 'x-invalid-directive-value');
+            }
+        }
+    });
+}
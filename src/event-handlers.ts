@@ -0,0 +1,141 @@
+/**
+ * @file 事件处理函数
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as estree from 'estree';
+import {
+    XDirective, XDocument, XEventHandler, XEventHandlerTable, XLiteral, XExpression, XPageMethod
+} from '../types/ast';
+import {isControlDirectiveKey} from './dialect';
+import {PageScript, getProperty, getPropertyKey} from './page-script';
+import {reportError, walkElements} from './swan-lang';
+
+/**
+ * The lifecycle hooks of page, they are called by the framework and needn't be referenced by event handlers.
+ */
+const PAGE_LIFECYCLES = new Set([
+    'onInit',
+    'onLoad',
+    'onShow',
+    'onReady',
+    'onHide',
+    'onUnload',
+    'onPullDownRefresh',
+    'onReachBottom',
+    'onShareAppMessage',
+    'onPageScroll',
+    'onTabItemTap',
+    'onResize',
+    'onError',
+    'onForceReLaunch',
+    'onURLQueryChange'
+]);
+
+/**
+ * Collect the function properties of the object expression.
+ * @param script The page or component script.
+ * @param node The object expression.
+ * @param methods The collected methods.
+ */
+function collectMethods(script: PageScript, node: estree.ObjectExpression, methods: XPageMethod[]): void {
+    for (const property of node.properties) {
+        const name = getPropertyKey(property);
+        if (name == null) {
+            continue;
+        }
+        const {key, value} = property as estree.Property;
+        if (value.type === 'FunctionExpression' || value.type === 'ArrowFunctionExpression') {
+            methods.push({
+                name,
+                filePath: script.filePath,
+                range: key.range as [number, number],
+                loc: {
+                    start: {line: key.loc!.start.line, column: key.loc!.start.column},
+                    end: {line: key.loc!.end.line, column: key.loc!.end.column}
+                },
+                lifecycle: PAGE_LIFECYCLES.has(name),
+                handlers: []
+            });
+        }
+    }
+}
+
+/**
+ * Get the methods of `Page({...})` and the `methods` of `Component({...})`.
+ * @param script The page or component script.
+ */
+function getPageMethods(script: PageScript): XPageMethod[] {
+    const methods: XPageMethod[] = [];
+    for (const {name, options} of script.constructors) {
+        const node = name === 'Component' ? getProperty(options, 'methods') : options;
+        if (node && node.type === 'ObjectExpression') {
+            collectMethods(script, node, methods);
+        }
+    }
+    return methods;
+}
+
+/**
+ * Get the static handler of event directive, dynamic handlers like `bindtap="{{handler}}"` are skipped.
+ * @param directive The event directive.
+ */
+function createEventHandler(directive: XDirective): XEventHandler | null {
+    if (directive.value.length !== 1) {
+        return null;
+    }
+    const [node] = directive.value;
+    let name: string | null = null;
+    if (node.type === 'XExpression' && node.expression && node.expression.type === 'Identifier') {
+        name = node.expression.name;
+    }
+    else if (node.type === 'XLiteral' && /^\s*[A-Za-z_$][\w$]*\s*$/.test(node.value)) {
+        name = node.value.trim();
+    }
+    return name != null
+        ? {name, directive, node: node as XLiteral | XExpression, method: null}
+        : null;
+}
+
+/**
+ * Link the event handlers to the methods of sibling page or component script,
+ * and report the handlers which don't exist.
+ * @param document The document to analyze.
+ * @param script The page or component script.
+ */
+export function analyzeEventHandlers(document: XDocument, script: PageScript | null): void {
+    const methods = script ? getPageMethods(script) : [];
+    const methodMap = new Map(methods.map(method => [method.name, method]));
+    const handlers: XEventHandler[] = [];
+
+    walkElements(document, element => {
+        for (const attr of element.startTag.attributes) {
+            if (attr.type !== 'XDirective' || isControlDirectiveKey(attr.key)) {
+                continue;
+            }
+            const handler = createEventHandler(attr);
+            if (handler == null) {
+                continue;
+            }
+            handlers.push(handler);
+
+            const method = methodMap.get(handler.name);
+            if (method) {
+                handler.method = method;
+                method.handlers.push(handler);
+            }
+            // the handlers can not be checked without page or component
+            else if (script && script.constructors.length) {
+                reportError(document, handler.node, 'x-undefined-event-handler');
+            }
+        }
+    });
+
+    const table: XEventHandlerTable = {handlers, methods};
+    Object.defineProperty(document, 'eventHandlers', {
+        value: table,
+        enumerable: false,
+        configurable: true,
+        writable: true
+    });
+}
@@ -0,0 +1,238 @@
+/**
+ * @file 表达式格式化
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as estree from 'estree';
+import {SwanForExpression, XExpression} from '../../types/ast';
+
+type ExpressionNode = estree.Node | SwanForExpression;
+
+/**
+ * The precedences of operators, the expression with lower precedence is wrapped by parentheses.
+ */
+const PRECEDENCE = {
+    sequence: 0,
+    assignment: 1,
+    conditional: 2,
+    unary: 15,
+    update: 16,
+    call: 17,
+    primary: 20
+};
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+    '??': 3,
+    '||': 4,
+    '&&': 5,
+    '|': 6,
+    '^': 7,
+    '&': 8,
+    '==': 9,
+    '!=': 9,
+    '===': 9,
+    '!==': 9,
+    '<': 10,
+    '>': 10,
+    '<=': 10,
+    '>=': 10,
+    'in': 10,
+    'instanceof': 10,
+    '<<': 11,
+    '>>': 11,
+    '>>>': 11,
+    '+': 12,
+    '-': 12,
+    '*': 13,
+    '/': 13,
+    '%': 13,
+    '**': 14
+};
+
+/**
+ * Get the precedence of the expression.
+ * @param node The expression.
+ */
+function getPrecedence(node: ExpressionNode): number {
+    switch (node.type) {
+        case 'SequenceExpression':
+            return PRECEDENCE.sequence;
+        case 'AssignmentExpression':
+        case 'ArrowFunctionExpression':
+            return PRECEDENCE.assignment;
+        case 'ConditionalExpression':
+            return PRECEDENCE.conditional;
+        case 'LogicalExpression':
+        case 'BinaryExpression':
+            return BINARY_PRECEDENCE[node.operator];
+        case 'UnaryExpression':
+            return PRECEDENCE.unary;
+        case 'UpdateExpression':
+            return PRECEDENCE.update;
+        case 'CallExpression':
+        case 'NewExpression':
+        case 'MemberExpression':
+            return PRECEDENCE.call;
+        default:
+            return PRECEDENCE.primary;
+    }
+}
+
+/**
+ * Print the string literal with single quotes.
+ * @param value The string value.
+ */
+function printString(value: string): string {
+    const escaped = JSON.stringify(value).slice(1, -1)
+        .replace(/\\"/g, '"')
+        .replace(/'/g, '\\\'');
+    return `'${escaped}'`;
+}
+
+/**
+ * Print the ESTree nodes of template expressions, the nodes which are not supported are printed as source text.
+ */
+class ExpressionPrinter {
+    private code: string;
+
+    public constructor(code: string) {
+        this.code = code;
+    }
+
+    /**
+     * Print the expression, it is wrapped by parentheses if its precedence is lower than the given precedence.
+     * @param node The expression.
+     * @param precedence The min precedence of the expression without parentheses.
+     */
+    public print(node: ExpressionNode, precedence = PRECEDENCE.sequence): string {
+        const text = this.printNode(node);
+        return getPrecedence(node) < precedence ? `(${text})` : text;
+    }
+
+    private getSourceText(node: ExpressionNode): string {
+        const [start, end] = (node as any).range as [number, number];
+        return this.code.slice(start, end);
+    }
+
+    private printList(nodes: (ExpressionNode | null)[]): string {
+        return nodes.map(node => (node ? this.print(node, PRECEDENCE.assignment) : '')).join(', ');
+    }
+
+    private printProperty(node: estree.Property | estree.SpreadElement): string {
+        if (node.type === 'SpreadElement') {
+            return this.printNode(node);
+        }
+        if (node.kind !== 'init' || node.method) {
+            return this.getSourceText(node);
+        }
+
+        const key = node.computed ? `[${this.print(node.key, PRECEDENCE.assignment)}]` : this.printNode(node.key);
+        const value = this.print(node.value as estree.Expression, PRECEDENCE.assignment);
+        return node.shorthand ? value : `${key}: ${value}`;
+    }
+
+    private printBinary(node: estree.BinaryExpression | estree.LogicalExpression): string {
+        const precedence = BINARY_PRECEDENCE[node.operator];
+        // `**` is right associative, `??` can not be mixed with `||` and `&&` without parentheses
+        const isMixedLogical = (child: ExpressionNode) => child.type === 'LogicalExpression'
+            && (child.operator === '??') !== (node.operator === '??');
+        const printOperand = (child: ExpressionNode, minPrecedence: number) => (
+            isMixedLogical(child) ? `(${this.printNode(child)})` : this.print(child, minPrecedence)
+        );
+        // the unary expression can not be the left operand of `**`, e.g. `(-a) ** 2`
+        const left = printOperand(node.left, node.operator === '**' ? PRECEDENCE.update : precedence);
+        const right = printOperand(node.right, node.operator === '**' ? precedence : precedence + 1);
+        return `${left} ${node.operator} ${right}`;
+    }
+
+    private printCallee(node: ExpressionNode): string {
+        const text = this.print(node, PRECEDENCE.call);
+        // `1.toFixed()` is a syntax error
+        return node.type === 'Literal' && typeof node.value === 'number' && /^\d+$/.test(text) ? `(${text})` : text;
+    }
+
+    private printNode(node: ExpressionNode): string {
+        switch (node.type) {
+            case 'Identifier':
+                return node.name;
+            case 'ThisExpression':
+                return 'this';
+            case 'Literal':
+                return typeof node.value === 'string' ? printString(node.value) : this.getSourceText(node);
+            case 'ArrayExpression':
+                return `[${this.printList(node.elements as ExpressionNode[])}]`;
+            case 'ObjectExpression':
+                return `{${node.properties.map(property => this.printProperty(property)).join(', ')}}`;
+            case 'SpreadElement':
+                return `...${this.print(node.argument, PRECEDENCE.assignment)}`;
+            case 'MemberExpression': {
+                const object = this.printCallee(node.object as estree.Expression);
+                return node.computed
+                    ? `${object}[${this.print(node.property as estree.Expression)}]`
+                    : `${object}.${this.printNode(node.property as estree.Expression)}`;
+            }
+            case 'CallExpression':
+                return `${this.printCallee(node.callee as estree.Expression)}(${this.printList(node.arguments)})`;
+            case 'NewExpression': {
+                // the call in callee should be wrapped, e.g. `new (a())()`
+                const callee = node.callee.type === 'CallExpression'
+                    ? `(${this.printNode(node.callee)})`
+                    : this.printCallee(node.callee as estree.Expression);
+                return `new ${callee}(${this.printList(node.arguments)})`;
+            }
+            case 'UnaryExpression': {
+                const argument = this.print(node.argument, PRECEDENCE.unary);
+                if (/^[a-z]/.test(node.operator)) {
+                    return `${node.operator} ${argument}`;
+                }
+                // `- -a` and `+ +a` are not `--a` and `++a`
+                return argument[0] === node.operator ? `${node.operator} ${argument}` : node.operator + argument;
+            }
+            case 'UpdateExpression': {
+                const argument = this.print(node.argument, PRECEDENCE.unary);
+                return node.prefix ? node.operator + argument : argument + node.operator;
+            }
+            case 'BinaryExpression':
+            case 'LogicalExpression':
+                return this.printBinary(node);
+            case 'ConditionalExpression':
+                return `${this.print(node.test, PRECEDENCE.conditional + 1)}`
+                    + ` ? ${this.print(node.consequent, PRECEDENCE.assignment)}`
+                    + ` : ${this.print(node.alternate, PRECEDENCE.assignment)}`;
+            case 'AssignmentExpression':
+                return `${this.printNode(node.left as estree.Expression)} ${node.operator} `
+                    + this.print(node.right, PRECEDENCE.assignment);
+            case 'SequenceExpression':
+                return node.expressions.map(expression => this.print(expression, PRECEDENCE.assignment)).join(', ');
+            case 'SwanForExpression': {
+                const left = node.index ? `${node.left.name}, ${node.index.name}` : node.left && node.left.name;
+                const right = this.print(node.right as unknown as estree.Expression, PRECEDENCE.assignment);
+                const trackBy = node.trackBy
+                    ? ` trackBy ${this.print(node.trackBy as unknown as estree.Expression, PRECEDENCE.assignment)}`
+                    : '';
+                return (left ? `${left} in ${right}` : right) + trackBy;
+            }
+            default:
+                return this.getSourceText(node);
+        }
+    }
+}
+
+/**
+ * Format the expression of mustache or directive, the expression which has comments or parse errors is kept as is.
+ * @param code Whole source code text.
+ * @param node The expression container.
+ */
+export function formatExpression(code: string, node: XExpression): string {
+    const source = code.slice(node.range[0], node.range[1]).trim();
+    const {expression} = node;
+    // the object without braces is kept, e.g. `{{a: 1, b: 2}}`, the locations of its nodes are not in source code
+    if (expression == null
+        || (expression.type === 'ObjectExpression' && source[0] !== '{')
+        || (expression.type === 'SwanForExpression' && expression.right == null)
+        || /\/[/*]/.test(source)) {
+        return source;
+    }
+    // the sequence expression is not allowed at the top level, e.g. `{{(a, b)}}`
+    return new ExpressionPrinter(code).print(expression, PRECEDENCE.assignment);
+}
@@ -0,0 +1,405 @@
+/**
+ * @file 模板格式化
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import defaults from 'lodash/defaults';
+import sortBy from 'lodash/sortBy';
+import {
+    Mustache, Token, XAttribute, XDirective, XDocument, XElement, XMustache, XText
+} from '../../types/ast';
+import {FormatOptions} from '../../types/formatter';
+import {getParseSnapshot, getTagTables} from '../parser';
+import {isSyntaxError} from '../swan-lang';
+import {formatExpression} from './expression';
+
+type ChildNode = XElement['children'][number];
+type InlineNode = XText | XMustache | Mustache;
+
+/**
+ * The child node or comment of element, the consecutive text and mustaches are grouped as an inline run.
+ */
+type ContentGroup = XElement | Token | InlineNode[];
+
+const DEFAULT_OPTIONS: Required<FormatOptions> = {
+    printWidth: 80,
+    tabWidth: 4,
+    useTabs: false,
+    attributePerLine: 'auto'
+};
+
+/**
+ * The elements whose content is printed as is, the rcdata and raw text tags of the document are also included.
+ */
+const WHITESPACE_SENSITIVE_TAGS = ['text'];
+
+const SPACE = /[ \t\n\r\f]/;
+const NON_SPACE = /[^ \t\n\r\f]/;
+const WHITESPACES = /[ \t\n\r\f]+/g;
+const WORDS = /[^ \t\n\r\f]+|[ \t\n\r\f]+/g;
+
+/**
+ * Check whether the node is a text or mustache.
+ * @param node The child node.
+ */
+function isInlineNode(node: ChildNode | Token): node is InlineNode {
+    return node.type === 'XText' || node.type === 'XMustache' || node.type === 'Mustache';
+}
+
+/**
+ * Get the first and last offsets of the group.
+ * @param group The content group.
+ */
+function getGroupRange(group: ContentGroup): [number, number] {
+    return Array.isArray(group)
+        ? [group[0].range[0], group[group.length - 1].range[1]]
+        : group.range;
+}
+
+/**
+ * Format the template by the `XDocument`, the tokens and comments.
+ */
+class Formatter {
+    private code: string;
+
+    private comments: Token[];
+
+    private options: Required<FormatOptions>;
+
+    private indentUnit: string;
+
+    private whitespaceSensitiveTags: Set<string>;
+
+    /**
+     * Initialize this formatter.
+     * @param code Whole source code text.
+     * @param document The parsed document.
+     * @param options The format options.
+     */
+    public constructor(code: string, document: XDocument, options: Required<FormatOptions>) {
+        this.code = code;
+        this.comments = document.comments;
+        this.options = options;
+        this.indentUnit = options.useTabs ? '\t' : ' '.repeat(options.tabWidth);
+
+        const {rcdataTags, rawTextTags} = getTagTables(document);
+        this.whitespaceSensitiveTags = new Set([...WHITESPACE_SENSITIVE_TAGS, ...rcdataTags, ...rawTextTags]);
+    }
+
+    /**
+     * Format the document.
+     * @param document The parsed document.
+     * @returns The formatted code which ends with a line break.
+     */
+    public format(document: XDocument): string {
+        const lines = this.formatContent(document.children, 0, this.code.length, 0);
+        return lines.length ? lines.join('\n') + '\n' : '';
+    }
+
+    private getIndent(level: number): string {
+        return this.indentUnit.repeat(level);
+    }
+
+    private getWidth(line: string): number {
+        return line.replace(/\t/g, ' '.repeat(this.options.tabWidth)).length;
+    }
+
+    private getSourceText(node: {range: [number, number]}): string {
+        return this.code.slice(node.range[0], node.range[1]);
+    }
+
+    /**
+     * Split the source text into lines, the first line is indented and others are kept as is.
+     * @param text The source text.
+     * @param indent The indentation of first line.
+     */
+    private getSourceLines(text: string, indent: string): string[] {
+        const lines = text.split('\n');
+        lines[0] = indent + lines[0];
+        return lines;
+    }
+
+    /**
+     * Group the children and comments between the start and end offsets, the whitespace-only text is skipped.
+     * @param children The child nodes.
+     * @param start The start offset of content.
+     * @param end The end offset of content.
+     */
+    private getContentGroups(children: ChildNode[], start: number, end: number): ContentGroup[] {
+        const elements = children.filter(child => child.type === 'XElement');
+        const comments = this.comments.filter(comment => comment.range[0] >= start
+            && comment.range[1] <= end
+            && !elements.some(element => element.range[0] <= comment.range[0]
+                && comment.range[1] <= element.range[1]));
+        const items = sortBy([
+            ...children.filter(child => child.type !== 'XText' || NON_SPACE.test(this.getSourceText(child))),
+            ...comments
+        ], item => item.range[0]);
+
+        const groups: ContentGroup[] = [];
+        for (const item of items) {
+            const lastGroup = groups[groups.length - 1];
+            if (isInlineNode(item)) {
+                if (Array.isArray(lastGroup)) {
+                    lastGroup.push(item);
+                }
+                else {
+                    groups.push([item]);
+                }
+            }
+            else {
+                groups.push(item as XElement | Token);
+            }
+        }
+        return groups;
+    }
+
+    /**
+     * Split the text and mustaches into words, the words without whitespace between them are joined.
+     * @param nodes The text and mustaches.
+     */
+    private getWords(nodes: InlineNode[]): string[] {
+        const words: string[] = [];
+        let offset = nodes[0].range[0];
+        let spaced = false;
+        const addWord = (word: string) => {
+            if (words.length && !spaced) {
+                words[words.length - 1] += word;
+            }
+            else {
+                words.push(word);
+            }
+            spaced = false;
+        };
+
+        for (const node of nodes) {
+            spaced = spaced || SPACE.test(this.code.slice(offset, node.range[0]));
+            if (node.type === 'XText') {
+                for (const word of this.getSourceText(node).match(WORDS)) {
+                    if (SPACE.test(word)) {
+                        spaced = true;
+                    }
+                    else {
+                        addWord(word);
+                    }
+                }
+            }
+            else {
+                addWord(this.formatMustache(node));
+            }
+            offset = node.range[1];
+        }
+        return words;
+    }
+
+    /**
+     * Fill the words into lines which don't exceed the print width.
+     * @param words The words.
+     * @param indent The indentation of lines.
+     */
+    private fillWords(words: string[], indent: string): string[] {
+        const lines: string[] = [];
+        let line = '';
+        for (const word of words) {
+            if (line && this.getWidth(`${indent}${line} ${word}`) > this.options.printWidth) {
+                lines.push(indent + line);
+                line = word;
+            }
+            else {
+                line = line ? `${line} ${word}` : word;
+            }
+        }
+        if (line) {
+            lines.push(indent + line);
+        }
+        return lines;
+    }
+
+    /**
+     * Format the children and comments, each element and comment starts a new line,
+     * and a blank line is kept between the groups which are separated by blank lines.
+     * @param children The child nodes.
+     * @param start The start offset of content.
+     * @param end The end offset of content.
+     * @param level The indentation level.
+     */
+    private formatContent(children: ChildNode[], start: number, end: number, level: number): string[] {
+        const indent = this.getIndent(level);
+        const lines: string[] = [];
+        let lastGroup: ContentGroup | null = null;
+        let lastEnd = -1;
+        for (const group of this.getContentGroups(children, start, end)) {
+            const [groupStart, groupEnd] = getGroupRange(group);
+            if (lines.length && /\n[ \t\r\f]*\n/.test(this.code.slice(lastEnd, groupStart))) {
+                lines.push('');
+            }
+            let groupLines: string[];
+            if (Array.isArray(group)) {
+                groupLines = this.fillWords(this.getWords(group), indent);
+            }
+            else if (group.type === 'XElement') {
+                groupLines = this.formatElement(group as XElement, level);
+            }
+            else {
+                groupLines = this.getSourceLines(this.getSourceText(group), indent);
+            }
+
+            // a line break between them would add whitespace to the rendered text
+            if (lastGroup != null && this.isAdjacentInline(lastGroup, group)) {
+                lines[lines.length - 1] += groupLines[0].slice(indent.length);
+                lines.push(...groupLines.slice(1));
+            }
+            else {
+                lines.push(...groupLines);
+            }
+            lastGroup = group;
+            lastEnd = groupEnd;
+        }
+        return lines;
+    }
+
+    /**
+     * Check whether the inline run, the element or the comment are adjacent without whitespace between them,
+     * e.g. `<text>world</text>!` and `a<!-- c -->b`, the adjacent elements are still split into lines.
+     * @param previous The previous group.
+     * @param group The next group.
+     */
+    private isAdjacentInline(previous: ContentGroup, group: ContentGroup): boolean {
+        const isElement = (item: ContentGroup) => !Array.isArray(item) && item.type === 'XElement';
+        if (isElement(previous) && isElement(group)) {
+            return false;
+        }
+        const end = getGroupRange(previous)[1];
+        const start = getGroupRange(group)[0];
+        return end === start && !SPACE.test(this.code[end - 1]) && !SPACE.test(this.code[start]);
+    }
+
+    /**
+     * Format the element, the content of whitespace sensitive elements is kept as is,
+     * and the inline content is kept on the line of tags if it fits.
+     * @param element The element.
+     * @param level The indentation level.
+     */
+    private formatElement(element: XElement, level: number): string[] {
+        const indent = this.getIndent(level);
+        const lines = this.formatStartTag(element, level);
+        const {startTag, endTag} = element;
+        if (endTag == null) {
+            return element.children.length
+                ? lines.concat(this.formatContent(element.children, startTag.range[1], element.range[1], level + 1))
+                : lines;
+        }
+
+        const endText = `</${element.rawName}>`;
+        if (this.whitespaceSensitiveTags.has(element.name)) {
+            const content = this.getSourceLines(this.code.slice(startTag.range[1], endTag.range[0]) + endText, '');
+            lines[lines.length - 1] += content[0];
+            return lines.concat(content.slice(1));
+        }
+
+        const groups = this.getContentGroups(element.children, startTag.range[1], endTag.range[0]);
+        if (!groups.length) {
+            lines[lines.length - 1] += endText;
+            return lines;
+        }
+        if (lines.length === 1 && groups.length === 1 && Array.isArray(groups[0])) {
+            const line = `${lines[0]}${this.getWords(groups[0]).join(' ')}${endText}`;
+            if (this.getWidth(line) <= this.options.printWidth) {
+                return [line];
+            }
+        }
+        return lines.concat(
+            this.formatContent(element.children, startTag.range[1], endTag.range[0], level + 1),
+            indent + endText
+        );
+    }
+
+    /**
+     * Format the start tag, the attributes are put on separate lines by the `attributePerLine` option.
+     * @param element The element.
+     * @param level The indentation level.
+     */
+    private formatStartTag(element: XElement, level: number): string[] {
+        const indent = this.getIndent(level);
+        const {attributes, selfClosing} = element.startTag;
+        const formatted = attributes.map(attribute => this.formatAttribute(attribute));
+        const line = `${indent}<${element.rawName}${formatted.map(text => ` ${text}`).join('')}`
+            + (selfClosing ? ' />' : '>');
+
+        const {attributePerLine, printWidth} = this.options;
+        const wrap = attributePerLine === 'always'
+            ? attributes.length > 1
+            : attributePerLine === 'auto' && attributes.length > 0 && this.getWidth(line) > printWidth;
+        if (!wrap) {
+            return [line];
+        }
+        return [
+            `${indent}<${element.rawName}`,
+            ...formatted.map(text => indent + this.indentUnit + text),
+            indent + (selfClosing ? '/>' : '>')
+        ];
+    }
+
+    /**
+     * Format the attribute, the value is quoted by double quotes unless it contains double quotes.
+     * @param node The attribute or directive.
+     */
+    private formatAttribute(node: XAttribute | XDirective): string {
+        const key = this.getSourceText(node.key);
+        const source = this.code.slice(node.key.range[1], node.range[1]);
+        if (!node.value.length) {
+            return source.includes('=') ? `${key}=""` : key;
+        }
+
+        const isClass = node.type === 'XAttribute' && node.key.name === 'class';
+        let value = node.value.map(part => {
+            switch (part.type) {
+                case 'XLiteral':
+                    return isClass
+                        ? this.getSourceText(part).replace(WHITESPACES, ' ')
+                        : this.getSourceText(part);
+                case 'XExpression':
+                    return formatExpression(this.code, part);
+                default:
+                    return this.formatMustache(part);
+            }
+        }).join('');
+        value = isClass ? value.trim() : value;
+
+        if (!value.includes('"')) {
+            return `${key}="${value}"`;
+        }
+        return value.includes('\'') ? key + source : `${key}='${value}'`;
+    }
+
+    /**
+     * Format the mustache, the expression is printed by its ESTree AST.
+     * @param node The mustache.
+     */
+    private formatMustache(node: XMustache | Mustache): string {
+        const value = node.type === 'Mustache' ? node.value.trim() : formatExpression(this.code, node.value);
+        // `{{{a: 1}}}` is ambiguous
+        const text = /^{|}$/.test(value) ? ` ${value} ` : value;
+        return node.binding === 'two-way' ? `{=${text}=}` : `{{${text}}}`;
+    }
+}
+
+/**
+ * Format the document returned by `parse()`, the document which has syntax errors can not be formatted.
+ * @param document The parsed document.
+ * @param options The format options.
+ * @returns The formatted code.
+ */
+export function formatDocument(document: XDocument, options: FormatOptions = {}): string {
+    const snapshot = getParseSnapshot(document);
+    if (snapshot == null) {
+        throw new Error('The document to format should be created by `parse()` or `reparse()`.');
+    }
+    const error = document.errors.find(isSyntaxError);
+    if (error) {
+        throw error;
+    }
+
+    const formatOptions = defaults({}, options, DEFAULT_OPTIONS);
+    return new Formatter(snapshot.code, document, formatOptions).format(document);
+}
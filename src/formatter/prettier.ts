@@ -0,0 +1,77 @@
+/**
+ * @file prettier 插件
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import last from 'lodash/last';
+import {XDocument} from '../../types/ast';
+import {ParserOptions} from '../../types/parser';
+import {formatDocument} from './index';
+
+type ParseFunction = (code: string, options: ParserOptions) => XDocument;
+
+/**
+ * The root node of prettier AST, the comments of document are printed by the formatter,
+ * so they are not exposed to prettier.
+ */
+export interface PrettierRoot {
+    type: 'SwanRoot';
+    range: [number, number];
+    document: XDocument;
+}
+
+/**
+ * Create the prettier plugin of `.swan` files.
+ * @param parse The function to parse `.swan` files.
+ */
+export function createPrettierPlugin(parse: ParseFunction) {
+    return {
+        languages: [
+            {
+                name: 'Swan',
+                parsers: ['swan'],
+                extensions: ['.swan'],
+                vscodeLanguageIds: ['swan']
+            }
+        ],
+        parsers: {
+            swan: {
+                // prettier 2 calls `parse(text, parsers, options)`, prettier 3 calls `parse(text, options)`
+                parse(text: string, ...args: any[]): PrettierRoot {
+                    const options = last(args) || {};
+                    const document = parse(text, {filePath: options.filepath} as ParserOptions);
+                    return {type: 'SwanRoot', range: [0, text.length], document};
+                },
+                astFormat: 'swan',
+                locStart: (node: PrettierRoot) => node.range[0],
+                locEnd: (node: PrettierRoot) => node.range[1]
+            }
+        },
+        printers: {
+            swan: {
+                print(path: any, options: any): string {
+                    const root: PrettierRoot = path.getValue ? path.getValue() : path.node;
+                    return formatDocument(root.document, {
+                        printWidth: options.printWidth,
+                        tabWidth: options.tabWidth,
+                        useTabs: options.useTabs,
+                        attributePerLine: options.swanAttributePerLine
+                    });
+                }
+            }
+        },
+        options: {
+            swanAttributePerLine: {
+                type: 'choice',
+                category: 'Swan',
+                default: 'auto',
+                description: 'Put attributes of Swan templates on separate lines.',
+                choices: [
+                    {value: 'auto', description: 'Only if the start tag exceeds the print width.'},
+                    {value: 'always', description: 'If the start tag has more than one attribute.'},
+                    {value: 'never', description: 'Keep attributes on the line of tag name.'}
+                ]
+            }
+        }
+    };
+}
@@ -0,0 +1,462 @@
+/**
+ * @file 增量解析
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import sortBy from 'lodash/sortBy';
+import sortedIndexBy from 'lodash/sortedIndexBy';
+import {HasLocation, Location, ParseError, Token, XDocument, XElement, XExpression} from '../types/ast';
+import {ParserOptions, TextEdit} from '../types/parser';
+import {Reference, Variable} from '../types/script';
+import {debug} from './common';
+import Parser, {ParseElementResult, analyzeDocument, getParseSnapshot, setParseSnapshot} from './parser';
+import {replaceOriginalNode} from './printer';
+import {traverseNodes} from './script/traverse';
+import {ReusableExpression} from './swan-lang';
+import Tokenizer from './tokenizer';
+
+/**
+ * The shift of the locations after the reparsed element.
+ */
+interface LocationShift {
+    offset: number;
+    delta: number;
+    position: Location;
+    lineDelta: number;
+    columnDelta: number;
+}
+
+/**
+ * Apply the sorted edits to the source code.
+ * @param code The previous source code.
+ * @param edits The sorted edits.
+ */
+function applyEdits(code: string, edits: TextEdit[]): string {
+    let result = '';
+    let offset = 0;
+    for (const {range, text} of edits) {
+        result += code.slice(offset, range[0]) + text;
+        offset = range[1];
+    }
+    return result + code.slice(offset);
+}
+
+/**
+ * Find the smallest element whose content contains all edits, its start tag and end tag are not changed.
+ * @param document The previous document.
+ * @param start The start offset of edits.
+ * @param end The end offset of edits.
+ */
+function findReparseElement(document: XDocument, start: number, end: number): XElement | null {
+    let found: XElement | null = null;
+    let node: XDocument | XElement = document;
+    while (node != null) {
+        const element = node.children.find(child => child.type === 'XElement'
+            && child.endTag != null
+            && child.startTag.range[1] <= start
+            && end <= child.endTag.range[0]) as XElement | undefined;
+        if (element == null) {
+            break;
+        }
+        found = element;
+        node = element;
+    }
+    return found;
+}
+
+/**
+ * Get the ancestor elements from the root element.
+ * @param element The element to get.
+ */
+function getAncestors(element: XElement): XElement[] {
+    const ancestors: XElement[] = [];
+    let node = element.parent;
+    while (node.type === 'XElement') {
+        ancestors.unshift(node);
+        node = node.parent;
+    }
+    return ancestors;
+}
+
+/**
+ * Collect the references of the expressions in the element.
+ * @param element The element to collect.
+ */
+function collectReferences(element: XElement): Set<Reference> {
+    const references = new Set<Reference>();
+    traverseNodes(element, {
+        enterNode(node) {
+            if (node.type === 'XExpression') {
+                (node as XExpression).references.forEach(reference => references.add(reference));
+            }
+        },
+        leaveNode() {
+            // Do nothing.
+        },
+    });
+    return references;
+}
+
+/**
+ * Collect the expressions of the previous element which are not edited, the reparsed element reuses them
+ * instead of parsing by espree again.
+ * @param document The previous document.
+ * @param element The previous element.
+ * @param start The start offset of edits.
+ * @param end The end offset of edits.
+ * @param delta The length difference of source code.
+ * @returns The reusable expressions, the keys are the start offsets of them in the edited source code.
+ */
+function collectReusableExpressions(
+    document: XDocument,
+    element: XElement,
+    start: number,
+    end: number,
+    delta: number
+): Map<number, ReusableExpression> {
+    const expressions = new Map<number, ReusableExpression>();
+    traverseNodes(element, {
+        enterNode(node) {
+            if (node.type !== 'XExpression' || (node as XExpression).expression == null) {
+                return;
+            }
+            const expression = node as XExpression;
+            const [from, to] = expression.range;
+            if (to > start && from < end) {
+                return;
+            }
+            const index = sortedIndexBy(document.tokens, {range: expression.range} as Token, token => token.range[0]);
+            let count = 0;
+            while (index + count < document.tokens.length && document.tokens[index + count].range[1] <= to) {
+                count++;
+            }
+            expressions.set(to <= start ? from : from + delta, {
+                node: expression,
+                tokens: document.tokens.slice(index, index + count)
+            });
+        },
+        leaveNode() {
+            // Do nothing.
+        },
+    });
+    return expressions;
+}
+
+/**
+ * Check whether the position is after or at the given position.
+ * @param position The position to check.
+ * @param target The target position.
+ */
+function isAfterPosition(position: Location, target: Location): boolean {
+    return position.line > target.line || (position.line === target.line && position.column >= target.column);
+}
+
+/**
+ * Shift the position after the reparsed element.
+ * @param position The position to shift.
+ * @param shift The location shift.
+ */
+function shiftPosition(position: Location, shift: LocationShift): void {
+    if (!isAfterPosition(position, shift.position)) {
+        return;
+    }
+    if (position.line === shift.position.line) {
+        position.column += shift.columnDelta;
+    }
+    position.line += shift.lineDelta;
+}
+
+/**
+ * Shift the ranges and locations of all nodes and tokens after the reparsed element.
+ * The nodes before the element are skipped with their children, the shared range arrays
+ * and position objects are shifted only once.
+ * @param root The node to shift.
+ * @param shift The location shift.
+ * @param skipped The node which is not shifted.
+ */
+function shiftLocations(root: object, shift: LocationShift, skipped: object): void {
+    const visited = new Set<object>();
+    const ranges = new Map<number[], number[]>();
+    const shiftOffset = (offset: number) => (offset >= shift.offset ? offset + shift.delta : offset);
+
+    const visit = (value: any) => {
+        if (value == null || typeof value !== 'object' || visited.has(value) || value === skipped) {
+            return;
+        }
+        visited.add(value);
+        if (Array.isArray(value)) {
+            value.forEach(visit);
+            return;
+        }
+
+        const {range, loc} = value as HasLocation;
+        if (Array.isArray(range) && typeof range[0] === 'number') {
+            if (!ranges.has(range) && range[1] < shift.offset) {
+                return;
+            }
+            if (!ranges.has(range)) {
+                ranges.set(range, range.slice());
+                range[0] = shiftOffset(range[0]);
+                range[1] = shiftOffset(range[1]);
+            }
+            const [start, end] = ranges.get(range)!;
+            if (typeof value.start === 'number' && start >= shift.offset) {
+                value.start += shift.delta;
+            }
+            if (typeof value.end === 'number' && end >= shift.offset) {
+                value.end += shift.delta;
+            }
+        }
+        if (loc != null && typeof loc === 'object') {
+            for (const position of [loc.start, loc.end]) {
+                if (position != null && !visited.has(position)) {
+                    visited.add(position);
+                    shiftPosition(position, shift);
+                }
+            }
+        }
+
+        for (const key of Object.keys(value)) {
+            if (key !== 'parent' && key !== 'errors') {
+                visit(value[key]);
+            }
+        }
+    };
+    visit(root);
+}
+
+/**
+ * Shift the error after the reparsed element.
+ * @param error The error to shift.
+ * @param shift The location shift.
+ */
+function shiftError(error: ParseError, shift: LocationShift): void {
+    const position = {line: error.lineNumber, column: error.column};
+    shiftPosition(position, shift);
+    error.index += shift.delta;
+    error.lineNumber = position.line;
+    error.column = position.column;
+
+    // the message of end tag error has the line of start tag, the start tag is shifted with the nodes
+    const {recovery} = error;
+    if (recovery != null && recovery.openedAt.range[0] >= shift.offset + shift.delta && shift.lineDelta) {
+        const line = recovery.openedAt.loc.start.line;
+        error.message = error.message.replace(`opened at line ${line - shift.lineDelta}`, `opened at line ${line}`);
+    }
+}
+
+/**
+ * Replace the errors of the previous element with the errors of the reparsed element.
+ * The errors are in the reported order, and the errors in an element are reported together while parsing it,
+ * so the new errors take the place of the previous errors, or are inserted before the errors after the element.
+ * @param errors The errors before analysis of the previous document.
+ * @param element The previous element.
+ * @param newErrors The errors of the reparsed element.
+ * @returns The errors of the reparsed document.
+ */
+function replaceErrors(errors: ParseError[], element: XElement, newErrors: ParseError[]): ParseError[] {
+    const [start, end] = element.range;
+    const isInElement = (error: ParseError) => error.index >= start && error.index < end;
+
+    let index = errors.findIndex(isInElement);
+    if (index === -1) {
+        index = errors.findIndex(error => error.index >= end);
+    }
+    const rest = errors.filter(error => !isInElement(error));
+    rest.splice(index === -1 ? rest.length : index, 0, ...newErrors);
+    return rest;
+}
+
+/**
+ * Replace the tokens of the previous element with the tokens of the reparsed element.
+ * @param tokens The tokens of document.
+ * @param element The previous element.
+ * @param newTokens The tokens of the reparsed element.
+ * @returns The function to replace the tokens after shifting locations.
+ */
+function prepareTokens(tokens: Token[], element: XElement, newTokens: Token[]): () => void {
+    const start = tokens.findIndex(token => token.range[0] >= element.range[0]);
+    const index = start === -1 ? tokens.length : start;
+    let count = 0;
+    while (index + count < tokens.length && tokens[index + count].range[1] <= element.range[1]) {
+        count++;
+    }
+    return () => {
+        tokens.splice(index, count, ...newTokens);
+    };
+}
+
+/**
+ * Move the references of the reparsed element to the place of the previous references,
+ * so that the order of references is the same as a full parse.
+ * @param ancestors The ancestors of the element.
+ * @param element The previous element.
+ * @param newElement The reparsed element.
+ * @returns The function to insert the new references after shifting locations.
+ */
+function prepareReferences(ancestors: XElement[], element: XElement, newElement: XElement): () => void {
+    const oldReferences = collectReferences(element);
+    const newReferences = collectReferences(newElement);
+    const updates: (() => void)[] = [];
+
+    for (const variable of ([] as Variable[]).concat(...ancestors.map(ancestor => ancestor.variables))) {
+        const added = variable.references.filter(reference => newReferences.has(reference));
+        const rest = variable.references.filter(
+            reference => !oldReferences.has(reference) && !newReferences.has(reference)
+        );
+        const index = rest.filter(reference => reference.id.range[0] < element.range[0]).length;
+        variable.references.splice(0, variable.references.length, ...rest);
+        updates.push(() => variable.references.splice(index, 0, ...added));
+    }
+    return () => updates.forEach(update => update());
+}
+
+/**
+ * Remove the results of document analysis which are not overwritten by analyzing again.
+ * @param document The document to reset.
+ */
+function resetAnalysis(document: XDocument): void {
+    traverseNodes(document, {
+        enterNode(node) {
+            if (node.type !== 'XExpression') {
+                return;
+            }
+            for (const reference of (node as XExpression).references) {
+                if (reference.variable != null && reference.variable.kind === 'module') {
+                    reference.variable = null;
+                }
+            }
+        },
+        leaveNode() {
+            // Do nothing.
+        },
+    });
+    document.variables.splice(0, document.variables.length);
+}
+
+/**
+ * Replace the previous element with the reparsed element, and shift the locations after it.
+ * @param document The previous document.
+ * @param code The edited source code.
+ * @param element The previous element.
+ * @param result The parse result of the element.
+ * @param errors The errors before analysis of the previous document.
+ * @param delta The length difference of source code.
+ * @returns The errors before analysis of the reparsed document.
+ */
+function replaceElement(
+    document: XDocument,
+    code: string,
+    element: XElement,
+    result: ParseElementResult,
+    errors: ParseError[],
+    delta: number
+): ParseError[] {
+    const newElement = result.element;
+    const parent = element.parent;
+    const ancestors = getAncestors(element);
+    const shift: LocationShift = {
+        offset: element.range[1],
+        delta,
+        position: {line: element.loc.end.line, column: element.loc.end.column},
+        lineDelta: newElement.loc.end.line - element.loc.end.line,
+        columnDelta: newElement.loc.end.column - element.loc.end.column
+    };
+
+    const replaceTokens = prepareTokens(document.tokens, element, result.tokens);
+    const replaceComments = prepareTokens(document.comments, element, result.comments);
+    const insertReferences = prepareReferences(ancestors, element, newElement);
+    const parseErrors = replaceErrors(errors, element, result.errors);
+    resetAnalysis(document);
+
+    shiftLocations(document, shift, element);
+    errors.filter(error => error.index >= element.range[1]).forEach(error => shiftError(error, shift));
+
+    replaceTokens();
+    replaceComments();
+    insertReferences();
+    newElement.parent = parent;
+    parent.children.splice(parent.children.indexOf(element), 1, newElement);
+    replaceOriginalNode(document, code, element, newElement);
+    return parseErrors;
+}
+
+/**
+ * Parse the element again in the edited source code.
+ * @param code The edited source code.
+ * @param element The previous element.
+ * @param expressions The reusable expressions of the previous element.
+ * @param parserOptions The parser options.
+ * @returns The parse result, or `null` if the element can not be parsed alone.
+ */
+function parseElement(
+    code: string,
+    element: XElement,
+    expressions: Map<number, ReusableExpression>,
+    parserOptions: ParserOptions
+): ParseElementResult | null {
+    try {
+        const parser = new Parser(new Tokenizer(code, element.range[0]), parserOptions);
+        return parser.parseElement(getAncestors(element), expressions);
+    }
+    catch (e) {
+        debug('[incremental] parse element %s error: %s', element.name, e);
+        return null;
+    }
+}
+
+/**
+ * Parse the whole source code.
+ * @param code The source code.
+ * @param parserOptions The parser options.
+ */
+function parseDocument(code: string, parserOptions: ParserOptions): XDocument {
+    return new Parser(new Tokenizer(code), parserOptions).parse();
+}
+
+/**
+ * Reparse the document after the source code is edited.
+ * Only the smallest element which contains the edits is parsed again, the nodes out of it are reused and shifted,
+ * the result is the same as a full parse. The whole source code is parsed if the element can not be found.
+ * The expressions in the element which are not edited are reused instead of parsing by espree again,
+ * and the page script of the previous document is reused, call `parse()` to read the changed page script.
+ * @param document The previous document, it is modified and returned if the element is reparsed.
+ * @param edits The text edits of the previous source code, they should not overlap.
+ * @param parserOptions The parser options.
+ */
+export function reparseDocument(document: XDocument, edits: TextEdit[], parserOptions: ParserOptions): XDocument {
+    const snapshot = getParseSnapshot(document);
+    if (snapshot == null) {
+        throw new Error('The document to reparse should be created by `parse()` or `reparse()`.');
+    }
+    if (!edits.length) {
+        return document;
+    }
+
+    // the edited code is parsed in the dialect of the document even if `filePath` is omitted
+    const options = {...parserOptions, dialect: document.xmlType} as ParserOptions;
+    const sortedEdits = sortBy(edits, edit => edit.range[0]);
+    const code = applyEdits(snapshot.code, sortedEdits);
+    const start = sortedEdits[0].range[0];
+    const end = Math.max(...sortedEdits.map(edit => edit.range[1]));
+    const delta = code.length - snapshot.code.length;
+
+    const element = findReparseElement(document, start, end);
+    const result = element && parseElement(
+        code,
+        element,
+        collectReusableExpressions(document, element, start, end, delta),
+        options
+    );
+    if (element == null || result == null || result.element.range[1] !== element.range[1] + delta) {
+        debug('[incremental] parse the whole document, edits: %j', sortedEdits.map(edit => edit.range));
+        return parseDocument(code, options);
+    }
+
+    debug('[incremental] reparse element %s %j', element.name, element.range);
+    const errors = replaceElement(document, code, element, result, snapshot.errors, delta);
+    document.errors.splice(0, document.errors.length, ...errors);
+    setParseSnapshot(document, {code, errors});
+    analyzeDocument(document, options, true);
+    return document;
+}
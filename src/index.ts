@@ -2,56 +2,125 @@
  * @file swan parser
  * @author mengke01(kekee000@gmail.com)
  */
-import * as path from 'path';
 import * as ast from '../types/ast';
 import * as script from '../types/script';
-import {ParserOptions} from '../types/parser';
+import {ParserOptions, TextEdit} from '../types/parser';
+import {ProjectOptions} from '../types/project';
+import {Dialect} from '../types/dialect';
+import {FormatterOptions} from '../types/formatter';
+import {TransformVisitor} from '../types/transform';
+import {CodemodOptions, CodemodSummary} from '../types/codemod';
+import {createBuilders} from './builders';
+import {transformFiles} from './codemod';
+import {resolveParserOptions} from './common';
+import {findDialectByFilePath, getDialect, isScriptModuleFile} from './dialect';
+import {formatDocument} from './formatter';
+import {createPrettierPlugin} from './formatter/prettier';
 import SwanParser from './parser';
+import Project from './project';
+import {reparseDocument} from './incremental';
+import {PrintableNode, print as printNode} from './printer';
 import SwanTokenizer from './tokenizer';
+import Transformer from './transform';
 import {parseScript} from './script';
+import {analyzeScriptScope, parseSjsScript} from './sjs';
 import * as services from './parser-services';
 
 export {traverseNodes} from './script/traverse';
+export {getComponentSchema, getComponentNames} from './components';
+export {Project, Transformer};
+export {isSyntheticNode} from './builders';
+export {getDialect} from './dialect';
 
 type XDocumentFragment = ast.XDocument;
 type ESLintExtendedProgram = script.ExtendedProgram;
 
-function getFileType(options: any): string {
-    const filePath = (options.filePath as string | undefined) || '.swan';
-    return path.extname(filePath).slice(1)
-        .toLowerCase();
-}
-
-function isInlineSjsModule(node: ast.XElement) {
-    return (node.name === 'filter' || node.name === 'import-sjs')
+function isInlineScriptModule(node: ast.XElement, dialect: Dialect) {
+    return dialect.scriptModuleTags.has(node.name)
         && node.children.length
         && node.children[0].type === 'XModule';
 }
 
-function resolveParserOptions(options: ParserOptions) {
-    return Object.assign(
-        {
-            noOpenTag: false,
-            parseExpression: true,
-            script: {
-                parser: 'espree',
-                sourceType: 'module',
-                ecmaVersion: 2018,
-                range: true,
-                loc: true,
-                tokens: true,
-            }
-        },
-        options
-    );
-}
-
 export function parse(code: string, options: ParserOptions): ast.XDocument {
     const tokenizer = new SwanTokenizer(code);
     const rootAST = new SwanParser(tokenizer, resolveParserOptions(options)).parse();
     return rootAST;
 }
 
+/**
+ * Reparse the document after the source code is edited, only the element which contains the edits is parsed again.
+ * @param document The previous document returned by `parse()` or `reparse()`, it is reused if possible.
+ * @param edits The text edits of the previous source code.
+ * @param options The parser options.
+ */
+export function reparse(document: ast.XDocument, edits: TextEdit[], options: ParserOptions): ast.XDocument {
+    return reparseDocument(document, edits, resolveParserOptions(options));
+}
+
+/**
+ * Print the node to source code, `print(parse(code))` returns the same code.
+ * The changed nodes are printed again, the source text of other nodes and the whitespaces between them are kept.
+ * @param node The node of the document returned by `parse()` or `reparse()`, or the new node.
+ */
+export function print(node: PrintableNode): string {
+    return printNode(node);
+}
+
+/**
+ * Create the transformer of the document, it mutates the document and generates the source code with the source map.
+ * @param document The document returned by `parse()` or `reparse()`.
+ * @param options The parser options to parse the code snippets of new nodes.
+ * @param visitor The visitor to transform the document, e.g. `{XElement(node, transformer) {}}`.
+ */
+export function transform(
+    document: ast.XDocument,
+    options: ParserOptions,
+    visitor?: TransformVisitor<Transformer>
+): Transformer {
+    const transformer = new Transformer(document, options);
+    if (visitor != null) {
+        transformer.transform(visitor);
+    }
+    return transformer;
+}
+
+/**
+ * Run the codemod over the template files, the transform gets the parsed document, the token store and the printer.
+ * The changed files are written unless `dry` is set, and the summary has the diffs of changed files.
+ * @param options The codemod options.
+ */
+export function runCodemod(options: CodemodOptions<Transformer>): CodemodSummary {
+    return transformFiles(options, parse, transform);
+}
+
+/**
+ * Format the swan template, the content of `<text>`, `<textarea>` and sjs modules is kept as is.
+ * @param code The source code.
+ * @param options The parser options and format options.
+ */
+export function format(code: string, options: FormatterOptions = {}): string {
+    return formatDocument(parse(code, options as ParserOptions), options);
+}
+
+/**
+ * The prettier plugin of `.swan` files, e.g. `prettier.format(code, {parser: 'swan', plugins: [prettierPlugin]})`.
+ */
+export const prettierPlugin = createPrettierPlugin(parse);
+
+/**
+ * The builders of synthetic nodes, e.g. `builders.element('view', {attrs: {'s-if': '{{show}}'}, children: ['hi']})`.
+ * The synthetic nodes have no location, they can be printed and inserted by transformers.
+ */
+export const builders = createBuilders(parse);
+
+/**
+ * Parse all `.swan` files of the project and build the dependency graph.
+ * @param options The project options.
+ */
+export function createProject(options: ProjectOptions): Project {
+    return new Project(options, parse);
+}
+
 export function parseForESLint(code: string, options: ParserOptions): ESLintExtendedProgram {
 
     const parserOptions = resolveParserOptions(options);
@@ -59,10 +128,10 @@ export function parseForESLint(code: string, options: ParserOptions): ESLintExte
     // eslint-disable-next-line no-param-reassign
     let result: ESLintExtendedProgram;
     let document: XDocumentFragment | null;
-    const xmlType = getFileType(parserOptions);
+    const filePath = parserOptions.filePath || '.swan';
 
     // parse script
-    if (xmlType === 'swan') {
+    if (findDialectByFilePath(filePath)) {
         const tokenizer = new SwanTokenizer(code);
         const rootAST = new SwanParser(tokenizer, parserOptions).parse();
         result = parseScript('', parserOptions.script);
@@ -71,8 +140,9 @@ export function parseForESLint(code: string, options: ParserOptions): ESLintExte
         result.ast.tokens = rootAST.tokens;
         result.ast.comments = rootAST.comments;
 
+        const dialect = getDialect(rootAST.xmlType);
         const sjsModules = rootAST.children
-            .filter(node => node.type === 'XElement' && isInlineSjsModule(node)) as ast.XElement[];
+            .filter(node => node.type === 'XElement' && isInlineScriptModule(node, dialect)) as ast.XElement[];
         const moduleBody: (script.Statement | script.ModuleDeclaration)[] = [];
         for (const sjsModule of sjsModules) {
             for (const body of sjsModule.children) {
@@ -85,10 +155,15 @@ export function parseForESLint(code: string, options: ParserOptions): ESLintExte
         if (moduleBody.length) {
             result.ast.sourceType = 'module';
             result.ast.body = moduleBody;
+            result.scopeManager = analyzeScriptScope(result.ast, parserOptions.script);
         }
 
         document = rootAST;
     }
+    else if (isScriptModuleFile(filePath)) {
+        result = parseSjsScript(code, parserOptions.script);
+        document = null;
+    }
     else {
         result = parseScript(code, parserOptions.script);
         document = null;
@@ -10,7 +10,8 @@ import {
     HasLocation,
     Token,
     XAttribute,
-    Mustache
+    Mustache,
+    MustacheBinding
 } from '../types/ast';
 import {debug, ParseError} from './common';
 import Tokenizer, {TokenizerState, TokenType} from './tokenizer';
@@ -26,6 +27,23 @@ function concat(text: string, token: Token): string {
     return text + token.value;
 }
 
+/**
+ * Check whether the given end token closes the start token, `{{` by `}}` and `{=` by `=}`.
+ * @param startToken The start token of mustache.
+ * @param endToken The end token of mustache.
+ */
+function isMatchedMustacheEnd(startToken: Token, endToken: Token): boolean {
+    return (startToken.value === '{=') === (endToken.value === '=}');
+}
+
+/**
+ * Get the binding type of the given mustache start token.
+ * @param startToken The start token of mustache.
+ */
+function getMustacheBinding(startToken: Token): MustacheBinding {
+    return startToken.value === '{=' ? 'two-way' : 'one-way';
+}
+
 /**
  * The type of start tags.
  */
@@ -628,7 +646,8 @@ export default class IntermediateTokenizer {
      * @param token The token to process.
      */
     protected XMustacheEnd(token: Token): IntermediateToken | null {
-        if (this.expressionStartToken == null) {
+        if (this.expressionStartToken == null
+            || !isMatchedMustacheEnd(this.expressionStartToken, token)) {
             return this.processText(token);
         }
 
@@ -656,6 +675,7 @@ export default class IntermediateTokenizer {
                 type: 'Mustache',
                 range: [start.range[0], token.range[1]],
                 loc: {start: start.loc.start, end: token.loc.end},
+                binding: getMustacheBinding(start),
                 value,
                 startToken: start,
                 endToken: token
@@ -671,6 +691,7 @@ export default class IntermediateTokenizer {
             type: 'Mustache',
             range: [start.range[0], token.range[1]],
             loc: {start: start.loc.start, end: token.loc.end},
+            binding: getMustacheBinding(start),
             value,
             startToken: start,
             endToken: token,
@@ -0,0 +1,243 @@
+/**
+ * @file 页面数据检查
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as estree from 'estree';
+import {Node, XDirective, XDocument, XElement, XExpression} from '../types/ast';
+import {Identifier, Reference} from '../types/script';
+import {isControlDirectiveKey} from './dialect';
+import {PageScript, getProperty, getPropertyKey} from './page-script';
+import {traverseNodes} from './script/traverse';
+import {reportError} from './swan-lang';
+
+/**
+ * The inferred shape of page data, `unknown` shape accepts any member access.
+ */
+type DataShape =
+    | {type: 'object', properties: Map<string, DataShape>}
+    | {type: 'array', element: DataShape}
+    | {type: 'unknown'};
+
+const UNKNOWN_SHAPE: DataShape = {type: 'unknown'};
+
+/**
+ * Infer the shape of the initial value.
+ * @param node The initial value.
+ */
+function inferShape(node: estree.Node): DataShape {
+    if (node.type === 'ObjectExpression') {
+        const properties = new Map<string, DataShape>();
+        for (const property of node.properties) {
+            const key = getPropertyKey(property);
+            // spread and computed keys can not be analyzed
+            if (key == null) {
+                return UNKNOWN_SHAPE;
+            }
+            properties.set(key, inferShape((property as estree.Property).value));
+        }
+        return {type: 'object', properties};
+    }
+    if (node.type === 'ArrayExpression') {
+        const [first] = node.elements;
+        return {
+            type: 'array',
+            element: first && first.type !== 'SpreadElement' ? inferShape(first) : UNKNOWN_SHAPE
+        };
+    }
+    return UNKNOWN_SHAPE;
+}
+
+/**
+ * Infer the shape of component `properties`, e.g. `{user: {type: Object, value: {name: ''}}}`.
+ * @param node The `properties` object expression.
+ * @param properties The shapes to add.
+ */
+function addComponentProperties(node: estree.ObjectExpression, properties: Map<string, DataShape>): void {
+    for (const property of node.properties) {
+        const key = getPropertyKey(property);
+        if (key == null) {
+            continue;
+        }
+        const value = (property as estree.Property).value;
+        const initial = value.type === 'ObjectExpression' ? getProperty(value, 'value') : null;
+        properties.set(key, initial ? inferShape(initial) : UNKNOWN_SHAPE);
+    }
+}
+
+/**
+ * Widen the shape with the data path of `setData`, e.g. `user.age` adds the member `age` to `user`,
+ * the value of the path is unknown.
+ * @param shape The shape to widen.
+ * @param path The segments of data path, e.g. `['list', '[0]', 'name']`.
+ * @returns The widened shape.
+ */
+function widenShape(shape: DataShape, path: string[]): DataShape {
+    if (!path.length || shape.type === 'unknown') {
+        return UNKNOWN_SHAPE;
+    }
+    const [segment, ...rest] = path;
+    const isIndex = segment[0] === '[';
+    if (shape.type === 'array') {
+        return isIndex ? {type: 'array', element: widenShape(shape.element, rest)} : UNKNOWN_SHAPE;
+    }
+    if (isIndex) {
+        return UNKNOWN_SHAPE;
+    }
+    shape.properties.set(segment, widenShape(shape.properties.get(segment) || UNKNOWN_SHAPE, rest));
+    return shape;
+}
+
+/**
+ * Infer the page data shape from `Page({data})` or `Component({data, properties})`,
+ * the data paths of `setData({...})` widen the shape.
+ * @param script The page or component script.
+ * @returns The data shape, or `null` if the data can not be analyzed.
+ */
+function inferPageData(script: PageScript): Map<string, DataShape> | null {
+    if (!script.constructors.length) {
+        return null;
+    }
+
+    const properties = new Map<string, DataShape>();
+    for (const {options} of script.constructors) {
+        const data = getProperty(options, 'data');
+        const shape = data ? inferShape(data) : UNKNOWN_SHAPE;
+        // `data` is not an object literal, the keys are unknown
+        if (data && shape.type !== 'object') {
+            return null;
+        }
+        if (shape.type === 'object') {
+            shape.properties.forEach((value, key) => properties.set(key, value));
+        }
+        const componentProperties = getProperty(options, 'properties');
+        if (componentProperties && componentProperties.type === 'ObjectExpression') {
+            addComponentProperties(componentProperties, properties);
+        }
+    }
+
+    traverseNodes(script.ast as unknown as Node, {
+        enterNode(node) {
+            const call = node as unknown as estree.Node;
+            if (call.type !== 'CallExpression'
+                || call.callee.type !== 'MemberExpression'
+                || call.callee.computed
+                || call.callee.property.type !== 'Identifier'
+                || call.callee.property.name !== 'setData'
+                || !call.arguments.length
+                || call.arguments[0].type !== 'ObjectExpression') {
+                return;
+            }
+            for (const property of call.arguments[0].properties) {
+                const key = getPropertyKey(property);
+                // `setData({'user.name': ''})` sets the member of `user`
+                const path = key != null ? key.match(/[^.[\]]+|\[[^\]]*\]/g) : null;
+                if (path) {
+                    widenShape({type: 'object', properties}, path);
+                }
+            }
+        },
+        leaveNode() {
+            // Do nothing.
+        },
+    });
+    return properties;
+}
+
+/**
+ * Check whether the references of the expression should be checked against page data.
+ * Event handler names and `s-key` are not data references.
+ * @param node The expression node.
+ */
+function isDataExpression(node: XExpression): boolean {
+    if (node.parent.type !== 'XDirective') {
+        return true;
+    }
+    const {key} = node.parent as XDirective;
+    return isControlDirectiveKey(key) && key.name !== 'key';
+}
+
+/**
+ * Check the member path of the reference, e.g. `userInfo.nickName`.
+ * @param document The document to report.
+ * @param reference The reference of page data.
+ * @param shape The shape of the referenced data.
+ */
+function validateMemberPath(document: XDocument, reference: Reference, shape: DataShape): void {
+    let node = reference.id as estree.Node;
+    let current = shape;
+    while (current.type !== 'unknown') {
+        const parent = (node as Identifier).parent as estree.Node;
+        if (parent == null || parent.type !== 'MemberExpression' || parent.object !== node) {
+            return;
+        }
+
+        if (current.type === 'array') {
+            // only index access is checked, e.g. `list[0].name`
+            if (!parent.computed) {
+                return;
+            }
+            current = current.element;
+        }
+        else {
+            const name = !parent.computed && parent.property.type === 'Identifier'
+                ? parent.property.name
+                : parent.property.type === 'Literal' ? String(parent.property.value) : null;
+            if (name == null) {
+                return;
+            }
+            if (!current.properties.has(name)) {
+                reportError(document, parent.property as Identifier, 'x-undefined-data-member');
+                return;
+            }
+            current = current.properties.get(name);
+        }
+        node = parent;
+    }
+}
+
+/**
+ * Check the template references against the data of sibling page or component script.
+ * @param document The document to analyze.
+ * @param script The page or component script.
+ */
+export function analyzePageData(document: XDocument, script: PageScript | null): void {
+    const data = script && inferPageData(script);
+    if (data == null) {
+        return;
+    }
+
+    // the data of `<template name="x">` comes from `<template is="x" data="">`
+    const definitions = new Set<XElement>(
+        document.templates ? document.templates.definitions.map(definition => definition.element) : []
+    );
+    let templateDepth = 0;
+
+    traverseNodes(document, {
+        enterNode(node) {
+            if (node.type === 'XElement' && definitions.has(node)) {
+                templateDepth++;
+            }
+            if (node.type !== 'XExpression' || templateDepth > 0 || !isDataExpression(node)) {
+                return;
+            }
+            for (const reference of node.references) {
+                if (reference.variable != null) {
+                    continue;
+                }
+                const shape = data.get(reference.id.name);
+                if (shape == null) {
+                    reportError(document, reference.id, 'x-undefined-data');
+                }
+                else {
+                    validateMemberPath(document, reference, shape);
+                }
+            }
+        },
+        leaveNode(node) {
+            if (node.type === 'XElement' && definitions.has(node)) {
+                templateDepth--;
+            }
+        },
+    });
+}
@@ -0,0 +1,120 @@
+/**
+ * @file 页面和组件脚本
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as path from 'path';
+import * as estree from 'estree';
+import {Node} from '../types/ast';
+import {ParserOptions} from '../types/parser';
+import {debug} from './common';
+import {parseScript} from './script';
+import {traverseNodes} from './script/traverse';
+
+/**
+ * The `Page({...})` or `Component({...})` call of the script.
+ */
+export interface PageConstructor {
+    name: 'Page' | 'Component';
+    options: estree.ObjectExpression;
+}
+
+/**
+ * The sibling `.js` file of the template.
+ */
+export interface PageScript {
+    filePath: string;
+    ast: estree.Program;
+    constructors: PageConstructor[];
+}
+
+/**
+ * Get the static key of the property.
+ * @param property The property node.
+ */
+export function getPropertyKey(property: estree.Property | estree.SpreadElement): string | null {
+    if (property.type !== 'Property') {
+        return null;
+    }
+    if (!property.computed && property.key.type === 'Identifier') {
+        return property.key.name;
+    }
+    return property.key.type === 'Literal' ? String(property.key.value) : null;
+}
+
+/**
+ * Get the property value of the object expression.
+ * @param node The object expression.
+ * @param name The property name.
+ */
+export function getProperty(node: estree.ObjectExpression, name: string): estree.Node | null {
+    const property = node.properties.find(property => getPropertyKey(property) === name);
+    return property ? (property as estree.Property).value : null;
+}
+
+/**
+ * Find the `Page({...})` and `Component({...})` calls of the script.
+ * @param program The page or component script.
+ */
+function findConstructors(program: estree.Program): PageConstructor[] {
+    const constructors: PageConstructor[] = [];
+    traverseNodes(program as unknown as Node, {
+        enterNode(node) {
+            const call = node as unknown as estree.Node;
+            if (call.type === 'CallExpression'
+                && call.callee.type === 'Identifier'
+                && (call.callee.name === 'Page' || call.callee.name === 'Component')
+                && call.arguments.length
+                && call.arguments[0].type === 'ObjectExpression') {
+                constructors.push({name: call.callee.name, options: call.arguments[0]});
+            }
+        },
+        leaveNode() {
+            // Do nothing.
+        },
+    });
+    return constructors;
+}
+
+/**
+ * Get the path of the sibling `.js` file of the template.
+ * @param parserOptions The parser options.
+ * @returns The script path, or `null` if the script can not be read.
+ */
+export function getPageScriptPath(parserOptions: ParserOptions): string | null {
+    if (!parserOptions.readFile || !parserOptions.filePath) {
+        return null;
+    }
+    const {filePath} = parserOptions;
+    return filePath.slice(0, filePath.length - path.extname(filePath).length) + '.js';
+}
+
+/**
+ * Load and parse the sibling `.js` file of the template.
+ * @param parserOptions The parser options.
+ * @returns The page script, or `null` if it can not be loaded.
+ */
+export function loadPageScript(parserOptions: ParserOptions): PageScript | null {
+    const scriptPath = getPageScriptPath(parserOptions);
+    if (scriptPath == null) {
+        return null;
+    }
+    const code = parserOptions.readFile!(scriptPath);
+    if (code == null) {
+        return null;
+    }
+
+    try {
+        const {ast} = parseScript(code, parserOptions.script!);
+        const program = ast as unknown as estree.Program;
+        return {
+            filePath: scriptPath,
+            ast: program,
+            constructors: findConstructors(program)
+        };
+    }
+    catch (e) {
+        debug('[page] parse page script %s error: %s', scriptPath, e);
+        return null;
+    }
+}
@@ -10,4 +10,10 @@ export type Node = ast.Node & ast.HasParent;
 export type Token = ast.Token;
 export type ESLintProgram = script.ScriptProgram;
 export type XDocument = ast.XDocument;
+export type XElement = ast.XElement;
+export type XComponent = ast.XComponent;
+export type XEventHandler = ast.XEventHandler;
+export type XPageMethod = ast.XPageMethod;
+export type XTemplateDefinition = ast.XTemplateDefinition;
+export type XTemplateUsage = ast.XTemplateUsage;
 export type HasLocation = ast.HasLocation;
\ No newline at end of file
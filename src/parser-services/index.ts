@@ -8,9 +8,17 @@ import NodeEventGenerator from './external/node-event-generator';
 import TokenStore from './external/token-store';
 import {
     ESLintProgram,
+    XComponent,
     XDocument,
+    XElement,
+    XEventHandler,
+    XPageMethod,
+    XTemplateDefinition,
+    XTemplateUsage,
 } from './ast';
 import {traverseNodes} from '../script/traverse';
+import {getComponentSchema} from '../components';
+import {ComponentSchema} from '../../types/component';
 
 //------------------------------------------------------------------------------
 // Helpers
@@ -45,6 +53,55 @@ export interface ParserServices {
      * @returns The root document fragment.
      */
     getDocumentFragment(): XDocument | null;
+
+    /**
+     * Get the template definitions of the document, `<template name="x">`.
+     * @returns The template definitions.
+     */
+    getTemplateDefinitions(): XTemplateDefinition[];
+
+    /**
+     * Get the template usages of the document, `<template is="x">`.
+     * @returns The template usages.
+     */
+    getTemplateUsages(): XTemplateUsage[];
+
+    /**
+     * Get the schema of the built-in component, e.g. `scroll-view`.
+     * @param name The component name.
+     * @returns The component schema, or `null` if it is not a built-in component.
+     */
+    getComponentSchema(name: string): ComponentSchema | null;
+
+    /**
+     * Get the `usingComponents` of the page or component json config.
+     * @returns The mapping of custom component tags to paths, or `null` if the config can not be loaded.
+     */
+    getUsingComponents(): Record<string, string> | null;
+
+    /**
+     * Get the component of the element, built-in, custom or unknown.
+     * @param element The element to get.
+     */
+    getElementComponent(element: XElement): XComponent | null;
+
+    /**
+     * Get the static event handlers of the document, e.g. `bindtap="onTap"`.
+     * @returns The event handlers with the linked methods.
+     */
+    getEventHandlers(): XEventHandler[];
+
+    /**
+     * Get the methods of the sibling page or component script.
+     * @returns The methods with the referencing handlers.
+     */
+    getPageMethods(): XPageMethod[];
+
+    /**
+     * Get the methods which are not referenced by any event handler, page lifecycle hooks are excluded.
+     * @returns The unreferenced methods.
+     */
+    getUnreferencedMethods(): XPageMethod[];
 }
 
 /**
@@ -136,5 +193,71 @@ export function define(
         getDocumentFragment(): XDocument | null {
             return document;
         },
+
+        /**
+         * Get the template definitions of the document, `<template name="x">`.
+         * @returns The template definitions.
+         */
+        getTemplateDefinitions(): XTemplateDefinition[] {
+            return document && document.templates ? document.templates.definitions : [];
+        },
+
+        /**
+         * Get the template usages of the document, `<template is="x">`.
+         * @returns The template usages.
+         */
+        getTemplateUsages(): XTemplateUsage[] {
+            return document && document.templates ? document.templates.usages : [];
+        },
+
+        /**
+         * Get the schema of the built-in component, e.g. `scroll-view`.
+         * @param name The component name.
+         * @returns The component schema, or `null` if it is not a built-in component.
+         */
+        getComponentSchema(name: string): ComponentSchema | null {
+            return getComponentSchema(name);
+        },
+
+        /**
+         * Get the `usingComponents` of the page or component json config.
+         * @returns The mapping of custom component tags to paths, or `null` if the config can not be loaded.
+         */
+        getUsingComponents(): Record<string, string> | null {
+            return document && document.usingComponents || null;
+        },
+
+        /**
+         * Get the component of the element, built-in, custom or unknown.
+         * @param element The element to get.
+         */
+        getElementComponent(element: XElement): XComponent | null {
+            return element.component || null;
+        },
+
+        /**
+         * Get the static event handlers of the document, e.g. `bindtap="onTap"`.
+         * @returns The event handlers with the linked methods.
+         */
+        getEventHandlers(): XEventHandler[] {
+            return document && document.eventHandlers ? document.eventHandlers.handlers : [];
+        },
+
+        /**
+         * Get the methods of the sibling page or component script.
+         * @returns The methods with the referencing handlers.
+         */
+        getPageMethods(): XPageMethod[] {
+            return document && document.eventHandlers ? document.eventHandlers.methods : [];
+        },
+
+        /**
+         * Get the methods which are not referenced by any event handler, page lifecycle hooks are excluded.
+         * @returns The unreferenced methods.
+         */
+        getUnreferencedMethods(): XPageMethod[] {
+            const methods = document && document.eventHandlers ? document.eventHandlers.methods : [];
+            return methods.filter(method => !method.lifecycle && !method.handlers.length);
+        },
     };
 }
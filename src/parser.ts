@@ -6,6 +6,7 @@
 import assert from 'assert';
 import last from 'lodash/last';
 import findLastIndex from 'lodash/findLastIndex';
+import sortBy from 'lodash/sortBy';
 import {
     ErrorCode,
     HasLocation,
@@ -16,24 +17,38 @@ import {
     XExpression,
     XMustache,
     XNode,
+    XText,
     Mustache,
     XDirective,
 } from '../types/ast';
+import {Dialect} from '../types/dialect';
 import {ParserOptions} from '../types/parser';
 
-import {debug, ParseError} from './common';
+import {debug, getEditDistance, ParseError} from './common';
+import {getDialect, resolveDialectName} from './dialect';
 import {LocationCalculator} from './location-calculator';
+import {findDuplicateClasses, processClassAttribute} from './class-list';
+import {analyzeConditionalChains} from './conditional';
+import {validateDirectives} from './directives';
+import {analyzeEventHandlers} from './event-handlers';
+import {analyzePageData} from './page-data';
+import {PageScript, getPageScriptPath, loadPageScript} from './page-script';
+import {analyzeScriptModules} from './sjs-module';
+import {recordOriginalDocument} from './printer';
+import {processStyleAttribute} from './style';
+import {analyzeTemplates} from './template';
+import {analyzeComponents} from './using-components';
 import {
     SWAN_CAN_BE_LEFT_OPEN_TAGS,
-    SWAN_VOID_ELEMENT_TAGS,
-    SWAN_RAWTEXT_TAGS,
-    SWAN_RCDATA_TAGS,
-    DIRECTIVE_NAME,
     convertToDirective,
+    isForDirectiveName,
     processMustache,
     processScriptModule,
     processExpression,
-    processForExpression
+    processForExpression,
+    processForVariable,
+    ReusableExpression,
+    setReusableExpressions
 } from './swan-lang';
 import IntermediateTokenizer, {
     IntermediateToken,
@@ -45,6 +60,82 @@ import Tokenizer from './tokenizer';
 
 const DUMMY_PARENT: any = Object.freeze({});
 
+/**
+ * The source code and the errors before analysis of the parsed document.
+ */
+export interface ParseSnapshot {
+    code: string;
+    errors: ParseError[];
+}
+
+/**
+ * The parse result of the element, the nodes and tokens have the locations of whole source code.
+ */
+export interface ParseElementResult {
+    element: XElement;
+    tokens: Token[];
+    comments: Token[];
+    errors: ParseError[];
+}
+
+/**
+ * The tags of the parsed document which change the parsing behavior,
+ * the tags of dialect and the extra tags of parser options are merged.
+ */
+export interface TagTables {
+    voidTags: Set<string>;
+    rawTextTags: Set<string>;
+    rcdataTags: Set<string>;
+    canBeLeftOpenTags: Set<string>;
+}
+
+/**
+ * Create the tag tables of the dialect and the parser options, the tag names are case-insensitive.
+ * @param dialect The dialect of the document.
+ * @param parserOptions The parser options which have the extra tags.
+ */
+function createTagTables(dialect: Dialect, parserOptions: ParserOptions): TagTables {
+    const merge = (tags: Set<string>, extraTags?: string[]) => new Set([
+        ...tags,
+        ...(extraTags || []).map(tag => tag.toLowerCase())
+    ]);
+    return {
+        voidTags: merge(dialect.voidTags, parserOptions.voidTags),
+        rawTextTags: merge(dialect.scriptModuleTags, parserOptions.rawTextTags),
+        rcdataTags: merge(dialect.rcdataTags, parserOptions.rcdataTags),
+        canBeLeftOpenTags: merge(SWAN_CAN_BE_LEFT_OPEN_TAGS, parserOptions.canBeLeftOpenTags)
+    };
+}
+
+/**
+ * The directives which declare loop variables without prefix, they are processed before other attributes.
+ */
+const FOR_DIRECTIVES = ['for-item', 'for-index', 'for', 'for-items'];
+
+/**
+ * Get the processing order of the given attribute.
+ * @param attribute The attribute to get.
+ * @param prefix The control directive prefix of the dialect.
+ */
+function byProcessingOrder(attribute: XAttribute, prefix: string): number {
+    const index = FOR_DIRECTIVES.findIndex(name => attribute.key.name === prefix + name);
+    return index === -1 ? FOR_DIRECTIVES.length : index;
+}
+
+/**
+ * The max edit distance of misspelled end tag names.
+ */
+const MAX_END_TAG_DISTANCE = 2;
+
+/**
+ * Check whether the end tag name is likely a typo of the element name, e.g. `</veiw>` of `<view>`.
+ * @param name The end tag name.
+ * @param element The open element.
+ */
+function isMisspelledEndTag(name: string, element: XElement): boolean {
+    const distance = getEditDistance(name, element.name);
+    return distance <= Math.min(MAX_END_TAG_DISTANCE, Math.floor(element.name.length / 2));
+}
 
 /**
  * Set the location of the last child node to the end location of the given node.
@@ -59,6 +150,87 @@ function propagateEndLocation(node: XDocument | XElement): void {
     }
 }
 
+/**
+ * Close the element without end tag after its last non-whitespace child,
+ * the trailing whitespaces are moved to the parent.
+ * @param element The element to close.
+ */
+function closeImpliedElement(element: XElement): void {
+    const {children} = element;
+    let i = children.length;
+    while (i > 0 && children[i - 1].type === 'XText' && !(children[i - 1] as XText).value.trim()) {
+        i--;
+    }
+    for (const child of children.splice(i)) {
+        child.parent = element.parent;
+        element.parent.children.push(child as XText);
+    }
+}
+
+/**
+ * The source code and the errors before analysis of the parsed documents, they are used by incremental reparse.
+ */
+const snapshots = new WeakMap<XDocument, ParseSnapshot>();
+
+/**
+ * The tag tables which the documents are parsed with, they are used by the formatter.
+ */
+const tagTables = new WeakMap<XDocument, TagTables>();
+
+/**
+ * Get the tag tables which the document is parsed with.
+ * @param document The parsed document.
+ */
+export function getTagTables(document: XDocument): TagTables | undefined {
+    return tagTables.get(document);
+}
+
+/**
+ * Get the parse snapshot of the document.
+ * @param document The parsed document.
+ */
+export function getParseSnapshot(document: XDocument): ParseSnapshot | undefined {
+    return snapshots.get(document);
+}
+
+/**
+ * Set the parse snapshot of the reparsed document.
+ * @param document The reparsed document.
+ * @param snapshot The source code and the errors before analysis.
+ */
+export function setParseSnapshot(document: XDocument, snapshot: ParseSnapshot): void {
+    snapshots.set(document, snapshot);
+}
+
+/**
+ * The page scripts which the documents are analyzed with, the reparsed document reuses the page script
+ * of the same path instead of reading and parsing it again.
+ */
+const pageScripts = new WeakMap<XDocument, {scriptPath: string | null, pageScript: PageScript | null}>();
+
+/**
+ * Analyze the whole document after parsing, e.g. conditional chains, templates and page data.
+ * @param document The parsed document.
+ * @param parserOptions The parser options.
+ * @param reuseScript Whether to reuse the page script of the previous analysis, it is used by incremental reparse.
+ */
+export function analyzeDocument(document: XDocument, parserOptions: ParserOptions, reuseScript = false): void {
+    validateDirectives(document);
+    analyzeConditionalChains(document);
+    analyzeTemplates(document);
+    analyzeComponents(document, parserOptions);
+
+    const scriptPath = getPageScriptPath(parserOptions);
+    const cached = reuseScript ? pageScripts.get(document) : undefined;
+    const pageScript = cached && cached.scriptPath === scriptPath ? cached.pageScript : loadPageScript(parserOptions);
+    pageScripts.set(document, {scriptPath, pageScript});
+    analyzeEventHandlers(document, pageScript);
+    if (parserOptions.parseExpression) {
+        analyzeScriptModules(document, parserOptions);
+        analyzePageData(document, pageScript);
+    }
+}
+
 /**
  * The parser of HTML.
  * This is not following to the HTML spec completely because wxml template spec is pretty different to HTML.
@@ -70,6 +242,10 @@ export default class Parser {
 
     private parserOptions: ParserOptions;
 
+    private dialect: Dialect;
+
+    private tags: TagTables;
+
     private document: XDocument;
 
     private elementStack: XElement[];
@@ -126,6 +302,8 @@ export default class Parser {
             tokenizer.lineTerminators,
         );
         this.parserOptions = parserOptions;
+        this.dialect = getDialect(resolveDialectName(parserOptions));
+        this.tags = createTagTables(this.dialect, parserOptions);
         this.document = {
             type: 'XDocument',
             range: [0, 0],
@@ -138,10 +316,12 @@ export default class Parser {
             tokens: this.tokens,
             comments: this.comments,
             errors: this.errors,
-            xmlType: 'swan'
+            variables: [],
+            xmlType: this.dialect.name
         };
         this.elementStack = [];
         this.expressionEnabled = true;
+        tagTables.set(this.document, this.tags);
     }
 
     /**
@@ -156,10 +336,64 @@ export default class Parser {
 
         this.popElementStackUntil(0);
         propagateEndLocation(this.document);
+        snapshots.set(this.document, {code: this.tokenizer.text, errors: this.errors.slice()});
+        recordOriginalDocument(this.document, this.tokenizer.text);
+        analyzeDocument(this.document, this.parserOptions);
 
         return this.document;
     }
 
+    /**
+     * Parse the element which starts at the start offset of tokenizer, it is used by incremental reparse.
+     * The ancestors are not modified, their copies are on the element stack to resolve the loop variables.
+     * @param ancestors The ancestors of the element, from the root element.
+     * @param expressions The expressions which are parsed before and not edited, they are reused instead of parsing.
+     * @returns The parse result of the element, or `null` if the element doesn't close exactly.
+     */
+    public parseElement(
+        ancestors: XElement[],
+        expressions: Map<number, ReusableExpression> = new Map()
+    ): ParseElementResult | null {
+        setReusableExpressions(this.document, expressions);
+        for (const ancestor of ancestors) {
+            this.elementStack.push({
+                ...ancestor,
+                range: [ancestor.range[0], ancestor.range[1]],
+                loc: {...ancestor.loc},
+                parent: this.currentNode,
+                children: [],
+                endTag: null
+            });
+        }
+
+        let token: IntermediateToken | null = null;
+        while ((token = this.tokenizer.nextToken()) != null) {
+            (this as any)[token.type](token);
+            if (this.elementStack.length <= ancestors.length) {
+                break;
+            }
+        }
+
+        const element = this.currentNode.children[0];
+        if (token == null
+            || token.type !== 'EndTag'
+            || this.elementStack.length !== ancestors.length
+            || this.currentNode.children.length !== 1
+            || element.type !== 'XElement'
+            || element.endTag == null) {
+            return null;
+        }
+
+        const end = element.range[1];
+        const isInElement = (node: HasLocation) => node.range[1] <= end;
+        return {
+            element,
+            tokens: this.tokens.filter(isInElement),
+            comments: this.comments.filter(isInElement),
+            errors: this.errors.filter(error => error.index < end)
+        };
+    }
+
     /**
      * Report an invalid character error.
      * @param code The error code.
@@ -176,6 +410,35 @@ export default class Parser {
         debug('[swan] syntax error:', error.message);
     }
 
+    /**
+     * Report the mismatched or missing end tag with the recovery information.
+     * @param token The mismatched end tag, or the start tag if the end tag is missing.
+     * @param code The error code.
+     * @param element The element which the end tag should close.
+     * @param actual The name of the mismatched end tag, `null` if the end tag is missing.
+     */
+    private reportEndTagError(token: HasLocation, code: ErrorCode, element: XElement, actual: string | null): void {
+        const {line} = element.startTag.loc.start;
+        const message = actual == null
+            ? `Missing end tag '</${element.rawName}>' of the element opened at line ${line}.`
+            : `Invalid end tag '</${actual}>', did you mean '</${element.rawName}>' opened at line ${line}?`;
+        const error = new ParseError(
+            message,
+            code,
+            token.range[0],
+            token.loc.start.line,
+            token.loc.start.column,
+        );
+        error.recovery = {
+            expected: element.name,
+            actual,
+            openedAt: {range: element.startTag.range, loc: element.startTag.loc}
+        };
+        this.errors.push(error);
+
+        debug('[swan] syntax error:', error.message);
+    }
+
     /**
      * Pop an element from the current element stack.
      */
@@ -183,10 +446,12 @@ export default class Parser {
         assert(this.elementStack.length >= 1);
 
         const element = this.elementStack.pop()!;
+        if (!element.endTag) {
+            closeImpliedElement(element);
+        }
         propagateEndLocation(element);
-        // TODO 检查 end tag
         if (!element.endTag && this.parserOptions.noOpenTag) {
-            this.reportParseError(element.startTag, 'missing-end-tag');
+            this.reportEndTagError(element.startTag, 'missing-end-tag', element, null);
         }
         // Update expression flag.
         if (this.elementStack.length === 0) {
@@ -214,7 +479,7 @@ export default class Parser {
             return;
         }
 
-        if (element.name === name && SWAN_CAN_BE_LEFT_OPEN_TAGS.has(name)) {
+        if (element.name === name && this.tags.canBeLeftOpenTags.has(name)) {
             this.popElementStack();
         }
     }
@@ -226,11 +491,11 @@ export default class Parser {
     private processAttribute(node: XAttribute): void {
         const attrName = node.key.name;
         let isDirective = false;
-        if (DIRECTIVE_NAME.test(attrName)) {
-            convertToDirective(node);
+        if (this.dialect.directiveName.test(attrName)) {
+            convertToDirective(node, this.dialect);
             isDirective = true;
         }
-        else if (attrName.startsWith('s-') || attrName.startsWith('bind:')) {
+        else if (this.dialect.invalidDirectiveName.test(attrName)) {
             this.reportParseError(node.key, 'x-invalid-directive');
         }
 
@@ -242,6 +507,7 @@ export default class Parser {
                         range: token.range,
                         loc: token.loc,
                         parent: node,
+                        binding: token.binding,
                         value: null,
                         startToken: token.startToken,
                         endToken: token.endToken
@@ -266,8 +532,16 @@ export default class Parser {
                     };
                     if (token.value.trim()) {
                         // 转换控制语句, for 需要单独处理
-                        if (node.key.name !== 'for') {
-                            processExpression(
+                        if (isForDirectiveName(node.key.name)) {
+                            processForExpression(
+                                this.parserOptions.script!,
+                                this.locationCalculator,
+                                expressionNode,
+                                token.value
+                            );
+                        }
+                        else if (node.key.name === 'for-item' || node.key.name === 'for-index') {
+                            processForVariable(
                                 this.parserOptions.script!,
                                 this.locationCalculator,
                                 expressionNode,
@@ -275,7 +549,7 @@ export default class Parser {
                             );
                         }
                         else {
-                            processForExpression(
+                            processExpression(
                                 this.parserOptions.script!,
                                 this.locationCalculator,
                                 expressionNode,
@@ -291,6 +565,18 @@ export default class Parser {
             return token;
         });
         node.value = values;
+
+        if (!isDirective && attrName === 'class') {
+            processClassAttribute(this.tokenizer.text, this.locationCalculator, node);
+            for (const token of findDuplicateClasses(node.classList)) {
+                this.reportParseError(token, 'x-duplicate-class');
+            }
+        }
+        if (!isDirective
+            && this.parserOptions.styleAttributes
+            && this.parserOptions.styleAttributes.includes(attrName)) {
+            processStyleAttribute(this.tokenizer.text, this.locationCalculator, node);
+        }
     }
 
     /**
@@ -330,11 +616,16 @@ export default class Parser {
 
         for (const attribute of token.attributes) {
             attribute.parent = element.startTag;
+        }
+        // The loop variables should be defined before the other attributes refer them.
+        const {directivePrefix} = this.dialect;
+        const attributes = sortBy(token.attributes, attribute => byProcessingOrder(attribute, directivePrefix));
+        for (const attribute of attributes) {
             this.processAttribute(attribute);
         }
 
         // Check whether the self-closing is valid.
-        const isVoid =  SWAN_VOID_ELEMENT_TAGS.has(element.name);
+        const isVoid = this.tags.voidTags.has(element.name);
         // only check void elements
         if (!token.selfClosing && isVoid) {
             this.reportParseError(
@@ -357,11 +648,11 @@ export default class Parser {
             this.expressionEnabled = true;
         }
 
-        if (SWAN_RCDATA_TAGS.has(element.name)) {
+        if (this.tags.rcdataTags.has(element.name)) {
             this.tokenizer.state = 'RCDATA';
         }
 
-        if (SWAN_RAWTEXT_TAGS.has(element.name)) {
+        if (this.tags.rawTextTags.has(element.name)) {
             this.tokenizer.state = 'RAWTEXT';
         }
     }
@@ -373,13 +664,18 @@ export default class Parser {
     protected EndTag(token: EndTag): void {
         debug('[swan] EndTag %j', token);
 
-        const i = findLastIndex(
+        let i = findLastIndex(
             this.elementStack,
             el => el.name.toLowerCase() === token.name,
         );
+        // close the element of misspelled end tag, so that the typo doesn't close the outer elements.
         if (i === -1) {
-            this.reportParseError(token, 'x-invalid-end-tag');
-            return;
+            i = findLastIndex(this.elementStack, el => isMisspelledEndTag(token.name, el));
+            if (i === -1) {
+                this.reportParseError(token, 'x-invalid-end-tag');
+                return;
+            }
+            this.reportEndTagError(token, 'x-invalid-end-tag', this.elementStack[i], token.name);
         }
 
         const element = this.elementStack[i];
@@ -408,12 +704,13 @@ export default class Parser {
             value: token.value,
         });
 
-        // sjs module parse, with no src attribute
+        // script module parse, with no src attribute
+        const {scriptModuleTags, scriptModuleAttributes} = this.dialect;
         if (this.parserOptions.parseExpression
             && parent.type === 'XElement'
-            && (parent.name === 'import-sjs' || parent.name === 'filter')
+            && scriptModuleTags.has(parent.name)
             && parent.children[0].type === 'XText'
-            && !parent.startTag.attributes.some(attr => attr.key.name === 'src')) {
+            && !parent.startTag.attributes.some(attr => attr.key.name === scriptModuleAttributes.src)) {
                 processScriptModule(
                     this.parserOptions.script,
                     this.locationCalculator,
@@ -436,6 +733,7 @@ export default class Parser {
                 range: token.range,
                 loc: token.loc,
                 parent,
+                binding: token.binding,
                 value: null,
                 startToken: token.startToken,
                 endToken: token.endToken
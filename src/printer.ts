@@ -0,0 +1,540 @@
+/**
+ * @file 源码输出
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import last from 'lodash/last';
+import {
+    Mustache, XAttribute, XDirective, XDirectiveKey, XDocument, XElement, XEndTag, XExpression,
+    XIdentifier, XLiteral, XModule, XMustache, XNode, XStartTag
+} from '../types/ast';
+
+/**
+ * The node which can be printed.
+ */
+export type PrintableNode = XNode | Mustache;
+
+/**
+ * The printed text, it is copied from the source code of document or generated by the printer.
+ */
+export interface SourceChunk {
+    text: string;
+
+    /**
+     * The document whose source code has the text, `null` if the text is generated.
+     */
+    document: XDocument | null;
+
+    /**
+     * The offset of the text in the source code of document.
+     */
+    offset: number;
+}
+
+/**
+ * The properties of the parsed node, they are compared with the current node to find the changes.
+ */
+interface OriginalNode {
+    document: XDocument;
+    name?: string;
+    rawName?: string;
+    selfClosing?: boolean;
+    binding?: string;
+    value?: any;
+    key?: XIdentifier | XDirectiveKey;
+    nodes?: PrintableNode[];
+    startTag?: XStartTag;
+    endTag?: XEndTag | null;
+}
+
+const TAG_NAME = /<\/?[^\s/>]*/y;
+
+const originals = new WeakMap<object, OriginalNode>();
+
+const sources = new WeakMap<XDocument, string>();
+
+/**
+ * Record the properties of the parsed nodes.
+ * @param node The parsed node.
+ * @param document The document of the node.
+ */
+function recordOriginalNodes(node: PrintableNode, document: XDocument): void {
+    const record = (child: PrintableNode) => recordOriginalNodes(child, document);
+    switch (node.type) {
+        case 'XDocument':
+            originals.set(node, {document, nodes: node.children.slice()});
+            node.children.forEach(record);
+            break;
+        case 'XElement':
+            originals.set(node, {
+                document,
+                name: node.name,
+                rawName: node.rawName,
+                nodes: node.children.slice(),
+                startTag: node.startTag,
+                endTag: node.endTag
+            });
+            record(node.startTag);
+            node.children.forEach(record);
+            if (node.endTag != null) {
+                record(node.endTag);
+            }
+            break;
+        case 'XStartTag':
+            originals.set(node, {document, selfClosing: node.selfClosing, nodes: node.attributes.slice()});
+            node.attributes.forEach(record);
+            break;
+        case 'XAttribute':
+        case 'XDirective':
+            originals.set(node, {document, key: node.key, nodes: node.value.slice()});
+            record(node.key);
+            node.value.forEach(record);
+            break;
+        case 'XIdentifier':
+        case 'XDirectiveKey':
+            originals.set(node, {document, name: node.name, rawName: node.rawName});
+            break;
+        case 'XMustache':
+            originals.set(node, {document, binding: node.binding, value: node.value});
+            record(node.value);
+            break;
+        case 'Mustache':
+            originals.set(node, {document, binding: node.binding, value: node.value});
+            break;
+        case 'XExpression':
+            originals.set(node, {document, value: node.expression});
+            break;
+        case 'XModule':
+            originals.set(node, {document, value: node.body});
+            break;
+        case 'XText':
+        case 'XLiteral':
+            originals.set(node, {document, value: node.value});
+            break;
+        case 'XEndTag':
+            originals.set(node, {document});
+            break;
+        default:
+            break;
+    }
+}
+
+/**
+ * Record the source code and the parsed nodes of document,
+ * the printer keeps the source text of the nodes which are not changed.
+ * @param document The parsed document.
+ * @param code The source code of document.
+ */
+export function recordOriginalDocument(document: XDocument, code: string): void {
+    sources.set(document, code);
+    recordOriginalNodes(document, document);
+}
+
+/**
+ * Replace the parsed element with the reparsed element, it is used by incremental reparse.
+ * @param document The document of the element.
+ * @param code The edited source code of document.
+ * @param element The parsed element.
+ * @param newElement The reparsed element, its parent is set.
+ */
+export function replaceOriginalNode(document: XDocument, code: string, element: XElement, newElement: XElement): void {
+    const original = originals.get(newElement.parent);
+    const index = original ? original.nodes!.indexOf(element) : -1;
+    if (index !== -1) {
+        original!.nodes!.splice(index, 1, newElement);
+    }
+    sources.set(document, code);
+    recordOriginalNodes(newElement, document);
+}
+
+/**
+ * Collect the printed chunks.
+ */
+class SourceWriter {
+    public chunks: SourceChunk[] = [];
+
+    /**
+     * Write the generated text.
+     * @param text The text.
+     */
+    public write(text: string): void {
+        if (text) {
+            this.chunks.push({text, document: null, offset: -1});
+        }
+    }
+
+    /**
+     * Copy the source text of the document of parsed node.
+     * @param original The parsed node.
+     * @param start The start offset.
+     * @param end The end offset.
+     */
+    public copy(original: OriginalNode, start: number, end: number): void {
+        if (start < end) {
+            const text = sources.get(original.document)!.slice(start, end);
+            this.chunks.push({text, document: original.document, offset: start});
+        }
+    }
+}
+
+/**
+ * Get the end offset of tag name, e.g. `<view` of `<view a="1">`.
+ * @param original The parsed start tag or end tag.
+ * @param tag The start tag or end tag.
+ */
+function getTagNameEnd(original: OriginalNode, tag: XStartTag | XEndTag): number {
+    TAG_NAME.lastIndex = tag.range[0];
+    return TAG_NAME.test(sources.get(original.document)!) ? TAG_NAME.lastIndex : tag.range[0];
+}
+
+/**
+ * Get the changed name of element or attribute, `rawName` is preferred if both names are changed.
+ * The `name` of directive key has no prefix, so only `rawName` is checked.
+ * @param node The element or attribute key.
+ * @returns The name to print, or `null` if the name is not changed.
+ */
+function getChangedName(node: XElement | XIdentifier | XDirectiveKey): string | null {
+    const original = originals.get(node);
+    if (original == null || node.rawName !== original.rawName) {
+        return node.rawName || node.name;
+    }
+    return node.type !== 'XDirectiveKey' && node.name !== original.name ? node.name : null;
+}
+
+/**
+ * Escape the text of text node.
+ * @param value The text to escape.
+ */
+function escapeText(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+}
+
+/**
+ * Escape the text of attribute value.
+ * @param value The text to escape.
+ * @param quote The quote of attribute value.
+ */
+function escapeAttributeValue(value: string, quote: string): string {
+    const escaped = value.replace(/&/g, '&amp;');
+    return quote === '\'' ? escaped.replace(/'/g, '&#39;') : escaped.replace(/"/g, '&quot;');
+}
+
+/**
+ * Print the nodes of the list, the source text between the nodes is kept as is if the list is not changed.
+ * Otherwise the parsed nodes keep their leading source text, and the new nodes are separated by the separator.
+ * @param writer The writer.
+ * @param parent The parsed parent node.
+ * @param nodes The current nodes.
+ * @param start The start offset of the list.
+ * @param end The end offset of the list.
+ * @param separator The separator before the new nodes.
+ */
+function printList(
+    writer: SourceWriter,
+    parent: OriginalNode,
+    nodes: PrintableNode[],
+    start: number,
+    end: number,
+    separator: string
+): void {
+    const originalNodes = parent.nodes!;
+    if (nodes.length === originalNodes.length && nodes.every((node, i) => node === originalNodes[i])) {
+        let offset = start;
+        for (const node of nodes) {
+            // the node recovered from invalid source may overlap the previous node, its source text is printed
+            if (node.range[0] < offset) {
+                continue;
+            }
+            writer.copy(parent, offset, node.range[0]);
+            printNode(writer, node);
+            offset = node.range[1];
+        }
+        writer.copy(parent, offset, end);
+        return;
+    }
+
+    for (const node of nodes) {
+        const index = originalNodes.indexOf(node);
+        if (index === -1) {
+            writer.write(separator);
+        }
+        else {
+            writer.copy(parent, index > 0 ? originalNodes[index - 1].range[1] : start, node.range[0]);
+        }
+        printNode(writer, node);
+    }
+    const lastNode = last(originalNodes);
+    writer.copy(parent, lastNode ? lastNode.range[1] : start, end);
+}
+
+/**
+ * Print the start tag, the name of start tag is the name of element.
+ * @param writer The writer.
+ * @param node The start tag.
+ * @param element The element of the start tag.
+ */
+function printStartTag(writer: SourceWriter, node: XStartTag, element: XElement): void {
+    const original = originals.get(node);
+    const name = getChangedName(element);
+    if (original == null) {
+        writer.write(`<${name || element.rawName}`);
+        for (const attribute of node.attributes) {
+            writer.write(' ');
+            printNode(writer, attribute);
+        }
+        writer.write(node.selfClosing ? '/>' : '>');
+        return;
+    }
+
+    const nameEnd = getTagNameEnd(original, node);
+    const lastAttribute = last(original.nodes);
+    const tailStart = lastAttribute ? lastAttribute.range[1] : nameEnd;
+    if (name == null) {
+        writer.copy(original, node.range[0], nameEnd);
+    }
+    else {
+        writer.write(`<${name}`);
+    }
+    printList(writer, original, node.attributes, nameEnd, tailStart, ' ');
+
+    if (node.selfClosing === original.selfClosing) {
+        writer.copy(original, tailStart, node.range[1]);
+    }
+    else {
+        const tail = sources.get(original.document)!.slice(tailStart, node.range[1]);
+        const match = /\s*\/?>$/.exec(tail);
+        writer.copy(original, tailStart, match ? tailStart + match.index : node.range[1]);
+        writer.write(node.selfClosing ? '/>' : '>');
+    }
+}
+
+/**
+ * Print the end tag, the name of end tag is the name of element.
+ * @param writer The writer.
+ * @param node The end tag.
+ * @param element The element of the end tag.
+ */
+function printEndTag(writer: SourceWriter, node: XEndTag, element: XElement): void {
+    const original = originals.get(node);
+    const name = getChangedName(element);
+    if (original == null) {
+        writer.write(`</${name || element.rawName}>`);
+    }
+    else if (name == null) {
+        writer.copy(original, node.range[0], node.range[1]);
+    }
+    else {
+        writer.write(`</${name}`);
+        writer.copy(original, getTagNameEnd(original, node), node.range[1]);
+    }
+}
+
+/**
+ * Print the element with its start tag, children and end tag.
+ * @param writer The writer.
+ * @param node The element.
+ */
+function printElement(writer: SourceWriter, node: XElement): void {
+    const original = originals.get(node);
+    if (original == null) {
+        printStartTag(writer, node.startTag, node);
+        node.children.forEach(child => printNode(writer, child));
+    }
+    else {
+        const start = original.startTag!.range[1];
+        const end = original.endTag ? original.endTag.range[0] : node.range[1];
+        writer.copy(original, node.range[0], original.startTag!.range[0]);
+        printStartTag(writer, node.startTag, node);
+        printList(writer, original, node.children, start, end, '');
+    }
+
+    if (node.endTag != null) {
+        printEndTag(writer, node.endTag, node);
+    }
+    if (original != null && original.endTag != null) {
+        writer.copy(original, original.endTag.range[1], node.range[1]);
+    }
+}
+
+/**
+ * Print the attribute or directive, the new value is quoted by double quotes.
+ * @param writer The writer.
+ * @param node The attribute or directive.
+ */
+function printAttribute(writer: SourceWriter, node: XAttribute | XDirective): void {
+    const original = originals.get(node);
+    printNode(writer, node.key);
+    if (original == null || !original.nodes!.length) {
+        if (node.value.length) {
+            // the literals escape double quotes, the copied mustaches may have double quotes
+            const valueWriter = new SourceWriter();
+            node.value.forEach(value => printNode(valueWriter, value));
+            const quote = valueWriter.chunks.some(chunk => chunk.text.includes('"')) ? '\'' : '"';
+            writer.write(`=${quote}`);
+            writer.chunks.push(...valueWriter.chunks);
+            writer.write(quote);
+        }
+        else if (original != null) {
+            writer.copy(original, original.key!.range[1], node.range[1]);
+        }
+        return;
+    }
+    if (!node.value.length) {
+        return;
+    }
+
+    const originalNodes = original.nodes!;
+    const start = originalNodes[0].range[0];
+    const end = last(originalNodes)!.range[1];
+    writer.copy(original, original.key!.range[1], start);
+    printList(writer, original, node.value, start, end, '');
+    writer.copy(original, end, node.range[1]);
+}
+
+/**
+ * Print the attribute value literal, the quote is the same as the parsed attribute.
+ * @param writer The writer.
+ * @param node The literal.
+ */
+function printLiteral(writer: SourceWriter, node: XLiteral): void {
+    const original = originals.get(node);
+    if (original != null && original.value === node.value) {
+        writer.copy(original, node.range[0], node.range[1]);
+        return;
+    }
+    const attribute = node.parent && originals.get(node.parent);
+    const quote = attribute && attribute.nodes!.length
+        ? sources.get(attribute.document)![attribute.nodes![0].range[0] - 1]
+        : '"';
+    writer.write(escapeAttributeValue(node.value, quote));
+}
+
+/**
+ * Print the mustache, the expression of new `Mustache` is printed as is.
+ * @param writer The writer.
+ * @param node The mustache.
+ */
+function printMustache(writer: SourceWriter, node: XMustache | Mustache): void {
+    const original = originals.get(node);
+    if (original != null && original.binding === node.binding) {
+        if (node.type === 'XMustache') {
+            const expression = original.value as XExpression;
+            writer.copy(original, node.range[0], expression.range[0]);
+            printNode(writer, node.value);
+            writer.copy(original, expression.range[1], node.range[1]);
+            return;
+        }
+        if (original.value === node.value) {
+            writer.copy(original, node.range[0], node.range[1]);
+            return;
+        }
+    }
+
+    writer.write(node.binding === 'two-way' ? '{=' : '{{');
+    if (node.type === 'Mustache') {
+        writer.write(node.value);
+    }
+    else {
+        printNode(writer, node.value);
+    }
+    writer.write(node.binding === 'two-way' ? '=}' : '}}');
+}
+
+/**
+ * Print the expression or module, the script AST can not be printed, so they must be parsed nodes.
+ * @param writer The writer.
+ * @param node The expression or module.
+ */
+function printScript(writer: SourceWriter, node: XExpression | XModule): void {
+    const original = originals.get(node);
+    const value = node.type === 'XExpression' ? node.expression : node.body;
+    if (original != null && original.value === value) {
+        writer.copy(original, node.range[0], node.range[1]);
+    }
+    else if (value != null) {
+        throw new Error(`The changed script of ${node.type} can not be printed, use the parsed node instead.`);
+    }
+}
+
+/**
+ * Print the node to the writer.
+ * @param writer The writer.
+ * @param node The node to print.
+ */
+function printNode(writer: SourceWriter, node: PrintableNode): void {
+    const original = originals.get(node);
+    switch (node.type) {
+        case 'XDocument':
+            if (original) {
+                printList(writer, original, node.children, 0, sources.get(original.document)!.length, '');
+            }
+            else {
+                node.children.forEach(child => printNode(writer, child));
+            }
+            break;
+        case 'XElement':
+            printElement(writer, node);
+            break;
+        case 'XStartTag':
+            printStartTag(writer, node, node.parent);
+            break;
+        case 'XEndTag':
+            printEndTag(writer, node, node.parent);
+            break;
+        case 'XAttribute':
+        case 'XDirective':
+            printAttribute(writer, node);
+            break;
+        case 'XIdentifier':
+        case 'XDirectiveKey': {
+            const name = getChangedName(node);
+            if (name == null) {
+                writer.copy(original!, node.range[0], node.range[1]);
+            }
+            else {
+                writer.write(name);
+            }
+            break;
+        }
+        case 'XLiteral':
+            printLiteral(writer, node);
+            break;
+        case 'XText':
+            if (original != null && original.value === node.value) {
+                writer.copy(original, node.range[0], node.range[1]);
+            }
+            else {
+                writer.write(escapeText(node.value));
+            }
+            break;
+        case 'XMustache':
+        case 'Mustache':
+            printMustache(writer, node);
+            break;
+        case 'XExpression':
+        case 'XModule':
+            printScript(writer, node);
+            break;
+        default:
+            throw new Error(`Unknown node type: ${(node as PrintableNode).type}`);
+    }
+}
+
+/**
+ * Print the node to source chunks, the source text of the parsed nodes which are not changed is copied.
+ * The nodes of other documents are also copied from their source code.
+ * @param node The node to print.
+ */
+export function printChunks(node: PrintableNode): SourceChunk[] {
+    const writer = new SourceWriter();
+    printNode(writer, node);
+    return writer.chunks;
+}
+
+/**
+ * Print the node to source code, the source text of the parsed nodes which are not changed is kept as is.
+ * @param node The node to print.
+ */
+export function print(node: PrintableNode): string {
+    return printChunks(node).map(chunk => chunk.text).join('');
+}
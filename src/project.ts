@@ -0,0 +1,290 @@
+/**
+ * @file 项目文件依赖关系
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {XDocument} from '../types/ast';
+import {ParserOptions} from '../types/parser';
+import {
+    DependencyEdge, DependencyKind, ProjectDiagnostic, ProjectDiagnosticCode, ProjectFile, ProjectOptions
+} from '../types/project';
+import {debug} from './common';
+import {findDialectByFilePath} from './dialect';
+import {getAttribute, getStaticAttributeValue, walkElements} from './swan-lang';
+
+type ParseFunction = (code: string, options: ParserOptions) => XDocument;
+
+/**
+ * The default extension name of each dependency kind.
+ */
+const DEPENDENCY_EXTENSIONS: Record<DependencyKind, string> = {
+    'import': '.swan',
+    'include': '.swan',
+    'import-sjs': '.sjs'
+};
+
+/**
+ * Read the file from file system.
+ * @param filePath The file path to read.
+ * @returns The file content, or `null` if the file doesn't exist.
+ */
+function readFileFromDisk(filePath: string): string | null {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    }
+    catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Find the files in the given directory, `node_modules` and hidden directories are skipped.
+ * @param dir The directory to find.
+ * @param filter The function to check whether the file name is matched.
+ * @param result The found files.
+ */
+function findFilesInDir(dir: string, filter: (name: string) => boolean, result: string[]): string[] {
+    for (const entry of fs.readdirSync(dir, {withFileTypes: true})) {
+        if (entry.name === 'node_modules' || entry.name.startsWith('.')) {
+            continue;
+        }
+        const filePath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            findFilesInDir(filePath, filter, result);
+        }
+        else if (filter(entry.name)) {
+            result.push(filePath);
+        }
+    }
+    return result;
+}
+
+/**
+ * Find all `.swan` files in the given directory.
+ * @param dir The directory to find.
+ * @param result The found files.
+ */
+export function findSwanFiles(dir: string, result: string[] = []): string[] {
+    return findFilesInDir(dir, name => path.extname(name) === '.swan', result);
+}
+
+/**
+ * Find the template files of all dialects in the given directory, e.g. `.swan`, `.wxml`.
+ * @param dir The directory to find.
+ * @param result The found files.
+ */
+export function findTemplateFiles(dir: string, result: string[] = []): string[] {
+    return findFilesInDir(dir, name => findDialectByFilePath(name) != null, result);
+}
+
+/**
+ * The project of mini program, parses the `.swan` files and builds the dependency graph
+ * of `<import>`, `<include>` and `<import-sjs>`.
+ */
+export default class Project {
+    public readonly rootDir: string;
+
+    public readonly files: Map<string, ProjectFile>;
+
+    public readonly edges: DependencyEdge[];
+
+    public readonly diagnostics: ProjectDiagnostic[];
+
+    private readFile: (filePath: string) => string | null;
+
+    private parserOptions: ParserOptions;
+
+    private parse: ParseFunction;
+
+    private contents: Map<string, string | null>;
+
+    /**
+     * Initialize this project.
+     * @param options The project options.
+     * @param parse The function to parse `.swan` files.
+     */
+    public constructor(options: ProjectOptions, parse: ParseFunction) {
+        this.rootDir = path.resolve(options.rootDir);
+        this.readFile = options.readFile || readFileFromDisk;
+        this.parserOptions = options.parserOptions as ParserOptions || {} as ParserOptions;
+        this.parse = parse;
+        this.contents = new Map();
+        this.files = new Map();
+        this.edges = [];
+        this.diagnostics = [];
+
+        const files = options.files
+            ? options.files.map(file => path.resolve(this.rootDir, file))
+            : findSwanFiles(this.rootDir);
+        for (const file of files) {
+            this.addFile(file);
+        }
+        this.detectCycles();
+    }
+
+    /**
+     * Get the parsed file.
+     * @param filePath The file path.
+     */
+    public getFile(filePath: string): ProjectFile | null {
+        return this.files.get(path.resolve(this.rootDir, filePath)) || null;
+    }
+
+    /**
+     * Get the dependencies of the given file.
+     * @param filePath The file path.
+     */
+    public getDependencies(filePath: string): DependencyEdge[] {
+        const file = this.getFile(filePath);
+        return file ? file.dependencies : [];
+    }
+
+    /**
+     * Get the edges which depend on the given file.
+     * @param filePath The file path.
+     */
+    public getDependents(filePath: string): DependencyEdge[] {
+        const resolved = path.resolve(this.rootDir, filePath);
+        return this.edges.filter(edge => edge.to === resolved);
+    }
+
+    /**
+     * Read the file content with cache.
+     * @param filePath The file path.
+     */
+    private read(filePath: string): string | null {
+        if (!this.contents.has(filePath)) {
+            this.contents.set(filePath, this.readFile(filePath));
+        }
+        return this.contents.get(filePath);
+    }
+
+    /**
+     * Resolve the `src` of dependency, absolute path is resolved from root directory.
+     * @param from The file which has the dependency.
+     * @param src The value of `src` attribute.
+     * @param kind The dependency kind.
+     * @returns The resolved file path, or `null` if it doesn't exist.
+     */
+    private resolve(from: string, src: string, kind: DependencyKind): string | null {
+        const base = src.startsWith('/')
+            ? path.join(this.rootDir, src)
+            : path.resolve(path.dirname(from), src);
+        const candidates = path.extname(base) ? [base] : [base, base + DEPENDENCY_EXTENSIONS[kind]];
+        return candidates.find(candidate => this.read(candidate) != null) || null;
+    }
+
+    /**
+     * Parse the file and its dependencies.
+     * @param filePath The file path.
+     */
+    private addFile(filePath: string): void {
+        if (this.files.has(filePath)) {
+            return;
+        }
+        const code = this.read(filePath);
+        if (code == null) {
+            return;
+        }
+
+        debug('[project] parse file %s', filePath);
+        const document = this.parse(code, {
+            readFile: (file: string) => this.read(file),
+            rootDir: this.rootDir,
+            ...this.parserOptions,
+            filePath
+        } as ParserOptions);
+        const file: ProjectFile = {
+            filePath,
+            document,
+            dependencies: []
+        };
+        this.files.set(filePath, file);
+
+        walkElements(document, element => {
+            const kind = element.name as DependencyKind;
+            if (!Object.prototype.hasOwnProperty.call(DEPENDENCY_EXTENSIONS, kind)) {
+                return;
+            }
+            const srcNode = getAttribute(element, 'src');
+            const src = srcNode && getStaticAttributeValue(srcNode);
+            if (!src || !src.trim()) {
+                return;
+            }
+
+            const edge: DependencyEdge = {
+                kind,
+                from: filePath,
+                to: this.resolve(filePath, src.trim(), kind),
+                src: src.trim(),
+                element,
+                srcNode
+            };
+            file.dependencies.push(edge);
+            this.edges.push(edge);
+
+            if (edge.to == null) {
+                this.report(edge, 'x-unresolved-dependency', `Can not resolve '${edge.src}'.`);
+            }
+        });
+
+        for (const edge of file.dependencies) {
+            if (edge.to != null && edge.kind !== 'import-sjs') {
+                this.addFile(edge.to);
+            }
+        }
+    }
+
+    /**
+     * Report the diagnostic of the dependency edge.
+     * @param edge The dependency edge.
+     * @param code The diagnostic code.
+     * @param message The diagnostic message.
+     */
+    private report(edge: DependencyEdge, code: ProjectDiagnosticCode, message: string): void {
+        this.diagnostics.push({
+            code,
+            message,
+            filePath: edge.from,
+            range: edge.srcNode.range,
+            loc: edge.srcNode.loc,
+            edge
+        });
+    }
+
+    /**
+     * Detect the cycles of `<import>` and `<include>` dependencies.
+     */
+    private detectCycles(): void {
+        const visited = new Set<string>();
+        const stack: string[] = [];
+
+        const visit = (filePath: string) => {
+            visited.add(filePath);
+            stack.push(filePath);
+            for (const edge of this.getDependencies(filePath)) {
+                if (edge.to == null || edge.kind === 'import-sjs') {
+                    continue;
+                }
+                const index = stack.indexOf(edge.to);
+                if (index !== -1) {
+                    const cycle = [...stack.slice(index), edge.to]
+                        .map(file => path.relative(this.rootDir, file));
+                    this.report(edge, 'x-cyclic-dependency', `Cyclic dependency: ${cycle.join(' -> ')}.`);
+                }
+                else if (!visited.has(edge.to)) {
+                    visit(edge.to);
+                }
+            }
+            stack.pop();
+        };
+
+        for (const filePath of this.files.keys()) {
+            if (!visited.has(filePath)) {
+                visit(filePath);
+            }
+        }
+    }
+}
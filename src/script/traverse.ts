@@ -11,7 +11,7 @@ import {Node} from '../../types/ast';
 //------------------------------------------------------------------------------
 
 const KEYS = Evk.unionWith({
-    XAttribute: ['key', 'value'],
+    XAttribute: ['key', 'value', 'declarations'],
     XDirective: ['key', 'value'],
     XDocument: ['children'],
     XElement: ['startTag', 'children', 'endTag'],
@@ -20,6 +20,8 @@ const KEYS = Evk.unionWith({
     SwanForExpression: ['left', 'index', 'right', 'trackBy'],
     XStartTag: ['attributes'],
     XModule: ['body'],
+    XStyleDeclaration: ['property', 'value'],
+    XStyleText: [],
 });
 
 /**
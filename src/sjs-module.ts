@@ -0,0 +1,235 @@
+/**
+ * @file sjs 模块命名空间
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as path from 'path';
+import * as estree from 'estree';
+import {XDocument, XElement, XExpression, XLiteral} from '../types/ast';
+import {Dialect} from '../types/dialect';
+import {ParserOptions} from '../types/parser';
+import {Identifier, Reference, Variable} from '../types/script';
+import {debug} from './common';
+import {getDialect} from './dialect';
+import {parseScript} from './script';
+import {traverseNodes} from './script/traverse';
+import {getAttribute, getStaticAttributeValue, reportError, walkElements} from './swan-lang';
+
+/**
+ * Check whether the node is `module.exports`.
+ * @param node The node to check.
+ */
+function isModuleExports(node: estree.Node): boolean {
+    return node.type === 'MemberExpression'
+        && node.object.type === 'Identifier'
+        && node.object.name === 'module'
+        && !node.computed
+        && node.property.type === 'Identifier'
+        && node.property.name === 'exports';
+}
+
+/**
+ * Get the static name of the property.
+ * @param node The property key or member property.
+ * @param computed Whether the property is computed.
+ */
+function getPropertyName(node: estree.Node, computed: boolean): string | null {
+    if (!computed && node.type === 'Identifier') {
+        return node.name;
+    }
+    if (node.type === 'Literal' && typeof node.value === 'string') {
+        return node.value;
+    }
+    return null;
+}
+
+/**
+ * Extract the exported member names from `module.exports = {...}`,
+ * `module.exports.x = ...` and `exports.x = ...`.
+ * @param body The statements of sjs module.
+ * @returns The exported member names, `null` if they can not be analyzed statically.
+ */
+export function extractModuleExports(body: estree.Node[]): string[] | null {
+    let exports: string[] = [];
+    for (const statement of body) {
+        if (statement.type !== 'ExpressionStatement'
+            || statement.expression.type !== 'AssignmentExpression') {
+            continue;
+        }
+        const {left, right} = statement.expression;
+
+        // module.exports = {a: a, b}
+        if (isModuleExports(left)) {
+            if (right.type !== 'ObjectExpression') {
+                return null;
+            }
+            exports = [];
+            for (const property of right.properties) {
+                const name = property.type === 'Property'
+                    ? getPropertyName(property.key, property.computed)
+                    : null;
+                // spread and computed properties can not be analyzed
+                if (name == null) {
+                    return null;
+                }
+                exports.push(name);
+            }
+        }
+        // module.exports.a = a, exports.a = a
+        else if (left.type === 'MemberExpression'
+            && (isModuleExports(left.object)
+                || left.object.type === 'Identifier' && left.object.name === 'exports')) {
+            const name = getPropertyName(left.property, left.computed);
+            if (name == null) {
+                return null;
+            }
+            exports.push(name);
+        }
+    }
+    return exports;
+}
+
+/**
+ * Resolve the path of external sjs module, absolute path is resolved from the root directory.
+ * @param src The `src` attribute of sjs module.
+ * @param parserOptions The parser options.
+ * @returns The file path, or `null` if it can not be resolved.
+ */
+function resolveModulePath(src: string, parserOptions: ParserOptions): string | null {
+    if (src.startsWith('/')) {
+        return parserOptions.rootDir ? path.join(parserOptions.rootDir, src) : null;
+    }
+    return parserOptions.filePath ? path.resolve(path.dirname(parserOptions.filePath), src) : null;
+}
+
+/**
+ * Read and analyze the exports of external sjs module.
+ * @param src The `src` attribute of sjs module.
+ * @param parserOptions The parser options.
+ */
+function readExternalModuleExports(src: string, parserOptions: ParserOptions): string[] | null {
+    const filePath = parserOptions.readFile ? resolveModulePath(src, parserOptions) : null;
+    if (filePath == null) {
+        return null;
+    }
+    const code = parserOptions.readFile(filePath);
+    if (code == null) {
+        return null;
+    }
+
+    try {
+        const {ast} = parseScript(code, parserOptions.script!);
+        return extractModuleExports(ast.body);
+    }
+    catch (e) {
+        debug('[sjs] parse module %s error: %s', filePath, e);
+        return null;
+    }
+}
+
+/**
+ * Get the exports of the given sjs module element.
+ * @param element The `<import-sjs>` or `<filter>` element.
+ * @param dialect The dialect of the document.
+ * @param parserOptions The parser options.
+ */
+function getModuleExports(element: XElement, dialect: Dialect, parserOptions: ParserOptions): string[] | null {
+    const [child] = element.children;
+    if (child && child.type === 'XModule') {
+        return child.body ? extractModuleExports(child.body) : null;
+    }
+
+    const srcNode = getAttribute(element, dialect.scriptModuleAttributes.src);
+    const src = srcNode && getStaticAttributeValue(srcNode);
+    return src ? readExternalModuleExports(src.trim(), parserOptions) : null;
+}
+
+/**
+ * Create the module variable which is declared by the `module` attribute, e.g. `name` attribute of axml.
+ * @param element The `<import-sjs>` or `<filter>` element.
+ * @param dialect The dialect of the document.
+ * @param parserOptions The parser options.
+ */
+function createModuleVariable(element: XElement, dialect: Dialect, parserOptions: ParserOptions): Variable | null {
+    const moduleNode = getAttribute(element, dialect.scriptModuleAttributes.name);
+    const name = moduleNode && getStaticAttributeValue(moduleNode);
+    if (!name || !name.trim()) {
+        return null;
+    }
+
+    const value = moduleNode.value[0] as XLiteral;
+    const id: Identifier = {
+        type: 'Identifier',
+        name: name.trim(),
+        range: [value.range[0], value.range[1]],
+        loc: {start: value.loc.start, end: value.loc.end}
+    };
+    return {
+        id,
+        kind: 'module',
+        references: [],
+        exports: getModuleExports(element, dialect, parserOptions)
+    };
+}
+
+/**
+ * Report the access to non-exported member, e.g. `sjs.foo` while `foo` is not exported.
+ * @param document The document to report.
+ * @param reference The reference of sjs module.
+ * @param variable The module variable.
+ */
+function validateMemberAccess(document: XDocument, reference: Reference, variable: Variable): void {
+    const node = reference.id.parent as estree.Node;
+    if (variable.exports == null
+        || node == null
+        || node.type !== 'MemberExpression'
+        || node.object !== reference.id as estree.Node) {
+        return;
+    }
+
+    const name = getPropertyName(node.property, node.computed);
+    if (name != null && !variable.exports.includes(name)) {
+        reportError(document, node.property as Identifier, 'x-undefined-module-member');
+    }
+}
+
+/**
+ * Register the sjs modules as document variables, and resolve the template references to them.
+ * @param document The document to analyze.
+ * @param parserOptions The parser options.
+ */
+export function analyzeScriptModules(document: XDocument, parserOptions: ParserOptions): void {
+    const dialect = getDialect(document.xmlType);
+    walkElements(document, element => {
+        if (dialect.scriptModuleTags.has(element.name)) {
+            const variable = createModuleVariable(element, dialect, parserOptions);
+            if (variable != null) {
+                document.variables.push(variable);
+            }
+        }
+    });
+
+    if (!document.variables.length) {
+        return;
+    }
+
+    const variables = new Map(document.variables.map(variable => [variable.id.name, variable]));
+    traverseNodes(document, {
+        enterNode(node) {
+            if (node.type !== 'XExpression') {
+                return;
+            }
+            for (const reference of (node as XExpression).references) {
+                const variable = reference.variable == null && variables.get(reference.id.name);
+                if (variable) {
+                    reference.variable = variable;
+                    variable.references.push(reference);
+                    validateMemberAccess(document, reference, variable);
+                }
+            }
+        },
+        leaveNode() {
+            // Do nothing.
+        },
+    });
+}
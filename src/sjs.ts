@@ -0,0 +1,208 @@
+/**
+ * @file sjs 语法检查
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as escope from 'eslint-scope';
+import {ErrorCode, Node} from '../types/ast';
+import {ScriptParserOptions} from '../types/parser';
+import {ExtendedProgram, Identifier, ScopeManager, ScriptProgram} from '../types/script';
+import {ParseError} from './common';
+import {parseScript} from './script';
+import {getFallbackKeys, traverseNodes} from './script/traverse';
+
+/**
+ * The globals of sjs runtime.
+ */
+export const SJS_GLOBALS = [
+    'getDate',
+    'getRegExp',
+    'module',
+    'exports',
+    'require',
+    'console',
+    'Object',
+    'Array',
+    'String',
+    'Number',
+    'Boolean',
+    'Math',
+    'JSON',
+    'Date',
+    'RegExp',
+    'parseInt',
+    'parseFloat',
+    'isNaN',
+    'isFinite',
+    'decodeURI',
+    'decodeURIComponent',
+    'encodeURI',
+    'encodeURIComponent',
+    'undefined',
+    'NaN',
+    'Infinity'
+];
+
+/**
+ * The browser globals which are not available in sjs runtime.
+ */
+const BROWSER_GLOBALS = new Set([
+    'window',
+    'self',
+    'globalThis',
+    'document',
+    'navigator',
+    'location',
+    'history',
+    'localStorage',
+    'sessionStorage',
+    'XMLHttpRequest',
+    'fetch',
+    'alert',
+    'setTimeout',
+    'setInterval',
+    'clearTimeout',
+    'clearInterval',
+    'requestAnimationFrame'
+]);
+
+/**
+ * Create the parse error at the start of the node.
+ * @param node The node which has the error.
+ * @param code The error code.
+ */
+function createError(node: Node, code: ErrorCode): ParseError {
+    return ParseError.fromCode(code, node.range[0], node.loc.start.line, node.loc.start.column);
+}
+
+/**
+ * Get the error code of the unsupported syntax.
+ * `let` and `const` are only allowed at the top level of the module.
+ * @param node The node to check.
+ * @param parent The parent node, `null` if the node is a top level statement.
+ */
+function getUnsupportedCode(node: Node, parent: Node | null): ErrorCode | null {
+    switch (node.type) {
+        case 'ClassDeclaration':
+        case 'ClassExpression':
+            return 'x-sjs-unsupported-class';
+        case 'FunctionDeclaration':
+        case 'FunctionExpression':
+        case 'ArrowFunctionExpression':
+            if (node.async) {
+                return 'x-sjs-unsupported-async';
+            }
+            return node.generator ? 'x-sjs-unsupported-generator' : null;
+        case 'VariableDeclaration':
+            return node.kind !== 'var' && parent != null
+                ? 'x-sjs-unsupported-block-scoped'
+                : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Validate the sjs module, report the syntax and globals which are unsupported by sjs runtime.
+ * @param body The statements of sjs module.
+ * @param externalReferences The identifiers which refer to globals.
+ * @returns The errors of sjs module.
+ */
+export function validateScriptModule(body: Node[], externalReferences: Identifier[]): ParseError[] {
+    const errors: ParseError[] = [];
+    for (const statement of body) {
+        traverseNodes(statement, {
+            enterNode(node, parent) {
+                const code = getUnsupportedCode(node, parent);
+                if (code != null) {
+                    errors.push(createError(node, code));
+                }
+            },
+            leaveNode() {
+                // Do nothing.
+            },
+        });
+    }
+
+    for (const id of externalReferences) {
+        if (BROWSER_GLOBALS.has(id.name)) {
+            errors.push(createError(id as Node, 'x-sjs-browser-global'));
+        }
+    }
+    return errors.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Analyze the scope of sjs program, the sjs runtime globals are predefined in global scope.
+ * @param ast The sjs program.
+ * @param parserOptions The script parser options.
+ * @returns The scope manager.
+ */
+function analyze(ast: ScriptProgram, parserOptions: ScriptParserOptions): escope.ScopeManager {
+    const scopeManager = escope.analyze(ast, {
+        ignoreEval: true,
+        nodejsScope: false,
+        ecmaVersion: parserOptions.ecmaVersion || 2018,
+        sourceType: parserOptions.sourceType === 'module' ? 'module' : 'script',
+        fallback: (node: {}) => getFallbackKeys(node as Node),
+    });
+
+    const globalScope = scopeManager.globalScope;
+    for (const name of SJS_GLOBALS) {
+        if (!globalScope.set.has(name)) {
+            const variable: escope.Variable = {
+                name,
+                scope: globalScope,
+                identifiers: [],
+                references: [],
+                defs: []
+            };
+            globalScope.variables.push(variable);
+            globalScope.set.set(name, variable);
+        }
+    }
+
+    // Resolve the references to the predefined globals.
+    globalScope.through = globalScope.through.filter(reference => {
+        const variable = globalScope.set.get(reference.identifier.name);
+        if (variable == null) {
+            return true;
+        }
+        reference.resolved = variable;
+        variable.references.push(reference);
+        return false;
+    });
+
+    return scopeManager;
+}
+
+/**
+ * Analyze the scope of the script which contains sjs modules.
+ * @param ast The script program.
+ * @param parserOptions The script parser options.
+ * @returns The scope manager.
+ */
+export function analyzeScriptScope(ast: ScriptProgram, parserOptions: ScriptParserOptions): ScopeManager {
+    return analyze(ast, parserOptions) as unknown as ScopeManager;
+}
+
+/**
+ * Parse the `.sjs` file, the unsupported syntax and globals are reported as `ast.errors`.
+ * @param code The source code of `.sjs` file.
+ * @param parserOptions The script parser options.
+ * @returns The result of parsing.
+ */
+export function parseSjsScript(code: string, parserOptions: ScriptParserOptions): ExtendedProgram {
+    const result = parseScript(code, {
+        tokens: true,
+        comment: true,
+        ...parserOptions
+    } as ScriptParserOptions);
+    const scopeManager = analyze(result.ast, parserOptions);
+    result.scopeManager = scopeManager as unknown as ScopeManager;
+    result.ast.errors = validateScriptModule(
+        result.ast.body as Node[],
+        scopeManager.globalScope.through.map(reference => reference.identifier as Identifier)
+    );
+    return result;
+}
@@ -0,0 +1,108 @@
+/**
+ * @file source map 生成
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {SourceMap} from '../types/transform';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode the number by base64 VLQ.
+ * @param value The number to encode.
+ */
+function encodeVLQ(value: number): string {
+    let vlq = value < 0 ? (-value << 1) + 1 : value << 1;
+    let result = '';
+    do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) {
+            digit |= 32;
+        }
+        result += BASE64[digit];
+    } while (vlq > 0);
+    return result;
+}
+
+/**
+ * Build the mappings of a single source file, the segments should be added in the order of generated positions.
+ */
+export default class SourceMapBuilder {
+    private lines: string[][];
+
+    private lastColumn: number;
+
+    private lastOriginalLine: number;
+
+    private lastOriginalColumn: number;
+
+    private lastMapped: boolean;
+
+    /**
+     * Initialize this builder.
+     */
+    public constructor() {
+        this.lines = [[]];
+        this.lastColumn = 0;
+        this.lastOriginalLine = 0;
+        this.lastOriginalColumn = 0;
+        this.lastMapped = false;
+    }
+
+    /**
+     * Add the segment which maps the generated position to the original position, the lines are 0-based.
+     * @param line The generated line.
+     * @param column The generated column.
+     * @param originalLine The original line.
+     * @param originalColumn The original column.
+     */
+    public addMapping(line: number, column: number, originalLine: number, originalColumn: number): void {
+        this.addSegment(line, column, [
+            encodeVLQ(0),
+            encodeVLQ(originalLine - this.lastOriginalLine),
+            encodeVLQ(originalColumn - this.lastOriginalColumn)
+        ].join(''));
+        this.lastOriginalLine = originalLine;
+        this.lastOriginalColumn = originalColumn;
+        this.lastMapped = true;
+    }
+
+    /**
+     * Add the segment of generated text which has no original position.
+     * @param line The generated line.
+     * @param column The generated column.
+     */
+    public addUnmapped(line: number, column: number): void {
+        const segments = this.lines[line];
+        // the generated text is unmapped if no segment before it on the same line
+        if (this.lastMapped && segments != null && segments.length) {
+            this.addSegment(line, column, '');
+        }
+        this.lastMapped = false;
+    }
+
+    /**
+     * Create the source map.
+     * @param source The source file name.
+     * @param content The source code.
+     */
+    public toJSON(source: string, content: string): SourceMap {
+        return {
+            version: 3,
+            sources: [source],
+            sourcesContent: [content],
+            names: [],
+            mappings: this.lines.map(segments => segments.join(',')).join(';')
+        };
+    }
+
+    private addSegment(line: number, column: number, data: string): void {
+        while (this.lines.length <= line) {
+            this.lines.push([]);
+            this.lastColumn = 0;
+        }
+        this.lines[line].push(encodeVLQ(column - this.lastColumn) + data);
+        this.lastColumn = column;
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * @file 内联样式解析
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {Mustache, OffsetRange, XAttribute, XMustache, XStyleDeclaration, XStyleText} from '../types/ast';
+import {debug} from './common';
+import {LocationCalculator} from './location-calculator';
+
+const IMPORTANT = /!\s*important\s*$/i;
+
+/**
+ * Create the text node of the given range, leading and trailing whitespaces are excluded.
+ * @param code Whole source code text.
+ * @param locationCalculator The location calculator.
+ * @param range The range of the text.
+ * @param mustaches The mustaches of the attribute value.
+ */
+function createStyleText(
+    code: string,
+    locationCalculator: LocationCalculator,
+    range: OffsetRange,
+    mustaches: (XMustache | Mustache)[]
+): XStyleText {
+    const raw = code.slice(range[0], range[1]);
+    const start = range[0] + (raw.length - raw.replace(/^\s+/, '').length);
+    const end = Math.max(start, range[1] - (raw.length - raw.replace(/\s+$/, '').length));
+    return {
+        type: 'XStyleText',
+        parent: null as any,
+        text: code.slice(start, end),
+        range: [start, end],
+        loc: {
+            start: locationCalculator.getLocation(start),
+            end: locationCalculator.getLocation(end)
+        },
+        expressions: mustaches.filter(mustache => mustache.range[0] >= start && mustache.range[1] <= end)
+    };
+}
+
+/**
+ * Split the source text by the separator, the separators in mustaches, parentheses and quotes are skipped.
+ * @param code Whole source code text.
+ * @param range The range to split.
+ * @param separator The separator character.
+ * @param mustaches The mustaches of the attribute value.
+ * @param limit The max count of separators to split.
+ */
+function splitStyleText(
+    code: string,
+    range: OffsetRange,
+    separator: string,
+    mustaches: (XMustache | Mustache)[],
+    limit = Infinity
+): OffsetRange[] {
+    const ranges: OffsetRange[] = [];
+    let start = range[0];
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = range[0]; i < range[1]; i++) {
+        const mustache = mustaches.find(mustache => mustache.range[0] === i);
+        if (mustache) {
+            i = mustache.range[1] - 1;
+            continue;
+        }
+
+        const c = code[i];
+        if (quote != null) {
+            quote = c === quote ? null : quote;
+        }
+        else if (c === '"' || c === '\'') {
+            quote = c;
+        }
+        else if (c === '(') {
+            depth++;
+        }
+        else if (c === ')') {
+            depth = Math.max(0, depth - 1);
+        }
+        else if (c === separator && depth === 0 && ranges.length < limit) {
+            ranges.push([start, i]);
+            start = i + 1;
+        }
+    }
+    ranges.push([start, range[1]]);
+    return ranges;
+}
+
+/**
+ * Parse the inline style attribute into declarations, e.g. `style="color: {{c}}; width: 10px"`.
+ * @param code Whole source code text.
+ * @param locationCalculator The location calculator.
+ * @param node The attribute node. This function sets the `declarations` property of this node.
+ */
+export function processStyleAttribute(
+    code: string,
+    locationCalculator: LocationCalculator,
+    node: XAttribute
+): void {
+    debug('[template] parse style attribute %s %j', node.key.name, node.range);
+    const declarations: XStyleDeclaration[] = [];
+    node.declarations = declarations;
+    if (!node.value.length) {
+        return;
+    }
+
+    const mustaches = node.value.filter(
+        value => value.type === 'XMustache' || value.type === 'Mustache'
+    ) as (XMustache | Mustache)[];
+    const valueRange: OffsetRange = [node.value[0].range[0], node.value[node.value.length - 1].range[1]];
+
+    for (const range of splitStyleText(code, valueRange, ';', mustaches)) {
+        if (!code.slice(range[0], range[1]).trim()) {
+            continue;
+        }
+
+        const [propertyRange, valueTextRange] = splitStyleText(code, range, ':', mustaches, 1);
+        let value: XStyleText | null = null;
+        let important = false;
+        if (valueTextRange) {
+            const text = code.slice(valueTextRange[0], valueTextRange[1]);
+            const match = IMPORTANT.exec(text);
+            important = match != null;
+            value = createStyleText(
+                code,
+                locationCalculator,
+                match ? [valueTextRange[0], valueTextRange[0] + match.index] : valueTextRange,
+                mustaches
+            );
+        }
+
+        const {range: declarationRange, loc} = createStyleText(code, locationCalculator, range, []);
+        const declaration: XStyleDeclaration = {
+            type: 'XStyleDeclaration',
+            range: declarationRange,
+            loc,
+            parent: node,
+            property: createStyleText(code, locationCalculator, propertyRange, mustaches),
+            value,
+            important
+        };
+        declaration.property.parent = declaration;
+        if (value) {
+            value.parent = declaration;
+        }
+        declarations.push(declaration);
+    }
+}
@@ -5,10 +5,11 @@
 
 import {sortedIndexBy, sortedLastIndexBy} from 'lodash';
 import {
-    ControlDirectivePrefix, EventDirectivePrefix, HasParent, OffsetRange, SwanForExpression,
-    Token, XAttribute, XDirective, XDirectiveKey, XDocument, XElement, XExpression,
-    XIdentifier, XModule, XMustache, XNode
+    ControlDirectivePrefix, ErrorCode, EventDirectivePrefix, HasParent, Node, OffsetRange, SwanForExpression,
+    Token, XAttribute, XDirective, XDirectiveKey, XDirectiveKeyPart, XDocument, XElement, XExpression,
+    XIdentifier, XLiteral, XModule, XMustache, XNode
 } from '../types/ast';
+import {Dialect} from '../types/dialect';
 import {ScriptParserOptions} from '../types/parser';
 import {Identifier, Reference, ArrayExpression} from '../types/script';
 import {debug, ParseError} from './common';
@@ -16,12 +17,9 @@ import {LocationCalculator} from './location-calculator';
 import { HasLocation } from './parser-services/ast';
 import {ExpressionParseResult, parseExpression, parseScriptElement} from './script/index';
 import {analyzeExternalReferences} from './script/scope-analyzer';
+import {validateScriptModule} from './sjs';
 
 export const SWAN_CAN_BE_LEFT_OPEN_TAGS = new Set(['_']);
-export const SWAN_VOID_ELEMENT_TAGS = new Set(['include']);
-export const SWAN_RAWTEXT_TAGS = new Set(['filter', 'import-sjs']);
-export const SWAN_RCDATA_TAGS = new Set(['textarea']);
-export const DIRECTIVE_NAME = /^(s-|bind:?|catch:?|capture-bind:|capture-catch:)(\w[\w-.]+)$/;
 
 
 function getOwnerDocument(leafNode: XNode): XDocument | null {
@@ -32,23 +30,70 @@ function getOwnerDocument(leafNode: XNode): XDocument | null {
     return node as XDocument;
 }
 
+/**
+ * Create the part of directive key, attribute names have no line break.
+ * @param node The attribute name node.
+ * @param offset The offset of the part in the attribute name.
+ * @param value The text of the part.
+ */
+function createDirectiveKeyPart(
+    node: XIdentifier,
+    offset: number,
+    value: string
+): XDirectiveKeyPart {
+    const {line, column} = node.loc.start;
+    return {
+        range: [node.range[0] + offset, node.range[0] + offset + value.length],
+        loc: {
+            start: {line, column: column + offset},
+            end: {line, column: column + offset + value.length}
+        },
+        value
+    };
+}
+
 function createDirectiveKey(
     node: XIdentifier,
-    parent: XDirective
+    parent: XDirective,
+    dialect: Dialect
 ): XDirectiveKey {
     // Parse node and tokens.
-    const [, prefix, name] = node.name.match(DIRECTIVE_NAME)!;
+    const [, prefix, name] = node.name.match(dialect.directiveName)!;
+    const isControl = prefix === dialect.directivePrefix;
+    // bind:touchmove.stop => touchmove, [stop]
+    const [argument, ...modifiers] = isControl ? [null] : name.split('.');
+
+    let offset = prefix.length;
+    const argumentPart = argument != null
+        ? createDirectiveKeyPart(node, offset, argument)
+        : null;
+    offset += argument != null ? argument.length : 0;
+    const modifierParts = modifiers.map(modifier => {
+        // skip `.`
+        offset += 1;
+        const part = createDirectiveKeyPart(node, offset, modifier);
+        offset += modifier.length;
+        return part;
+    });
+
     const directiveKey: XDirectiveKey = {
         type: 'XDirectiveKey',
         range: node.range,
         loc: node.loc,
         parent,
         name: name,
-        prefix: prefix === 's-'
+        argument,
+        modifiers,
+        prefix: isControl
             ? prefix as ControlDirectivePrefix
             : prefix.replace(/:$/, '') as EventDirectivePrefix,
         rawPrefix: prefix,
-        rawName: node.rawName
+        rawName: node.rawName,
+        parts: {
+            prefix: createDirectiveKeyPart(node, 0, prefix),
+            argument: argumentPart,
+            modifiers: modifierParts
+        }
     };
     return directiveKey;
 }
@@ -121,12 +166,22 @@ function insertComments(
     document.comments.splice(index, 0, ...newComments);
 }
 
+/**
+ * Check whether the error changes the structure of document, e.g. the HTML syntax errors and mismatched end tags.
+ * The document with such errors can not be formatted or transformed.
+ * @param error The parse error.
+ */
+export function isSyntaxError(error: ParseError): boolean {
+    const code = error.code || '';
+    return !code.startsWith('x-') || code === 'x-invalid-end-tag';
+}
+
 /**
  * Insert the given error.
  * @param document The document that the node is belonging to.
  * @param error The error to insert.
  */
-function insertError(
+export function insertError(
     document: XDocument | null,
     error: ParseError,
 ): void {
@@ -140,6 +195,154 @@ function insertError(
     document.errors.splice(index, 0, error);
 }
 
+/**
+ * Report the error at the start location of the given node.
+ * @param document The document that the node is belonging to.
+ * @param node The node to locate the error.
+ * @param code The error code.
+ */
+export function reportError(
+    document: XDocument | null,
+    node: HasLocation,
+    code: ErrorCode,
+): void {
+    const error = ParseError.fromCode(
+        code,
+        node.range[0],
+        node.loc.start.line,
+        node.loc.start.column,
+    );
+    insertError(document, error);
+    debug('[swan] syntax error:', error.message);
+}
+
+/**
+ * The expression which is parsed before, it can be reused by incremental reparse.
+ */
+export interface ReusableExpression {
+    node: XExpression;
+    tokens: Token[];
+}
+
+/**
+ * The kind and source code of the expressions which are parsed by espree, e.g. `for:item in list`.
+ */
+const expressionSources = new WeakMap<XExpression, string>();
+
+/**
+ * The reusable expressions of the documents which are being parsed, the keys are the offsets in source code.
+ */
+const reusableExpressions = new WeakMap<XDocument, Map<number, ReusableExpression>>();
+
+/**
+ * Set the reusable expressions of the document which is being parsed.
+ * @param document The document which is being parsed.
+ * @param expressions The reusable expressions, the keys are the start offsets of them in the source code.
+ */
+export function setReusableExpressions(document: XDocument, expressions: Map<number, ReusableExpression>): void {
+    reusableExpressions.set(document, expressions);
+}
+
+/**
+ * Clone the nodes or tokens of the reused expression to the new location.
+ * @param value The node, token or other value to clone.
+ * @param delta The offset difference of the new location.
+ * @param locationCalculator The location calculator of the new source code.
+ * @param clones The cloned nodes, the keys are the previous nodes, the parents are linked to the clones.
+ */
+function cloneWithLocation(
+    value: any,
+    delta: number,
+    locationCalculator: LocationCalculator,
+    clones: Map<any, any>
+): any {
+    if (Array.isArray(value)) {
+        return value.map(item => cloneWithLocation(item, delta, locationCalculator, clones));
+    }
+    // the values of regular expression literals are shared
+    if (value == null || typeof value !== 'object' || value instanceof RegExp) {
+        return value;
+    }
+
+    const clone: any = Object.create(Object.getPrototypeOf(value));
+    clones.set(value, clone);
+    for (const key of Object.keys(value)) {
+        clone[key] = key === 'parent'
+            ? clones.get(value.parent) || null
+            : cloneWithLocation(value[key], delta, locationCalculator, clones);
+    }
+    if (Array.isArray(value.range)) {
+        clone.range = [value.range[0] + delta, value.range[1] + delta];
+        clone.loc = {
+            start: locationCalculator.getLocation(clone.range[0]),
+            end: locationCalculator.getLocation(clone.range[1])
+        };
+        if (typeof value.start === 'number') {
+            clone.start = value.start + delta;
+        }
+        if (typeof value.end === 'number') {
+            clone.end = value.end + delta;
+        }
+    }
+    return clone;
+}
+
+/**
+ * Reuse the expression which is parsed from the same source code at the same location before the edits,
+ * the nodes and tokens are cloned to the new location, and the references are not resolved.
+ * @param locationCalculator The location calculator of the new source code.
+ * @param node The expression container node. This function modifies the `expression` and `references` properties of this node.
+ * @param kind The kind of expression, e.g. `expression`, `for`.
+ * @param code The source code of expression.
+ * @returns `true` if the expression is reused.
+ */
+function reuseExpression(
+    locationCalculator: LocationCalculator,
+    node: XExpression,
+    kind: string,
+    code: string
+): boolean {
+    const document = getOwnerDocument(node);
+    const expressions = document && reusableExpressions.get(document);
+    const reusable = expressions && expressions.get(node.range[0]);
+    if (reusable == null || expressionSources.get(reusable.node) !== `${kind}:${code}`) {
+        return false;
+    }
+
+    const delta = node.range[0] - reusable.node.range[0];
+    const clones = new Map<any, any>();
+    const expression = cloneWithLocation(reusable.node.expression, delta, locationCalculator, clones);
+    const references: Reference[] = reusable.node.references.map(reference => ({
+        id: clones.get(reference.id),
+        mode: reference.mode,
+        variable: null
+    }));
+    if (references.some(reference => reference.id == null)) {
+        return false;
+    }
+
+    debug('[template] reuse expression {{%s}} %j', code, node.range);
+    expressions!.delete(node.range[0]);
+    node.expression = expression;
+    (expression as HasParent).parent = node;
+    node.references = references;
+    replaceTokens(document, {range: node.range}, cloneWithLocation(reusable.tokens, delta, locationCalculator, clones));
+    expressionSources.set(node, `${kind}:${code}`);
+    return true;
+}
+
+/**
+ * Get the element which the given node is belonging to.
+ * @param node The node to get the owner element.
+ */
+function getOwnerElement(node: XNode): XElement | null {
+    let element: XNode = node.parent;
+    while (element != null && element.type !== 'XElement') {
+        element = element.parent;
+    }
+    return element as XElement;
+}
+
 /**
  * Resolve the variable of the given reference.
  * @param referene The reference to resolve.
@@ -161,6 +364,44 @@ function resolveReference(referene: Reference, element: XNode): void {
     }
 }
 
+/**
+ * Get the attribute of the given element.
+ * @param element The element to get.
+ * @param name The attribute name.
+ */
+export function getAttribute(element: XElement, name: string): XAttribute | null {
+    const attribute = element.startTag.attributes.find(
+        attr => attr.type === 'XAttribute' && attr.key.name === name
+    );
+    return attribute as XAttribute || null;
+}
+
+/**
+ * Get the text of static attribute value.
+ * @param attribute The attribute to get.
+ * @returns The text, or `null` if the value has mustaches.
+ */
+export function getStaticAttributeValue(attribute: XAttribute): string | null {
+    if (!attribute.value.every(value => value.type === 'XLiteral')) {
+        return null;
+    }
+    return (attribute.value as XLiteral[]).map(value => value.value).join('');
+}
+
+/**
+ * Walk all elements of the given node.
+ * @param node The node to walk.
+ * @param callback The callback for each element.
+ */
+export function walkElements(node: XDocument | XElement, callback: (element: XElement) => void): void {
+    for (const child of node.children) {
+        if (child.type === 'XElement') {
+            callback(child);
+            walkElements(child, callback);
+        }
+    }
+}
+
 /**
  * Information of a mustache.
  */
@@ -172,13 +413,12 @@ export interface Mustache {
 
 /**
  * Replace the given attribute by a directive.
- * @param code Whole source code text.
- * @param parserOptions The parser options to parse expressions.
- * @param locationCalculator The location calculator to adjust the locations of nodes.
  * @param node The attribute node to replace. This function modifies this node directly.
+ * @param dialect The dialect of the document, its name pattern matches the attribute name.
  */
 export function convertToDirective(
     node: XAttribute,
+    dialect: Dialect
 ): XDirective {
     debug(
         '[template] convert to directive: %s="%s" %j',
@@ -190,13 +430,34 @@ export function convertToDirective(
     directive.type = 'XDirective';
     directive.key = createDirectiveKey(
         node.key,
-        directive
+        directive,
+        dialect
     );
     return directive;
 }
 
 const memberExpression = /^\s*(?:\w+\s*:|(["'])[\w.-]+\1\s*:)/;
 
+const IDENTIFIER = /^(\s*)(\w+)\s*$/;
+
+/**
+ * The directives which declare the loop variables of `s-for`.
+ */
+const FOR_VARIABLE_DIRECTIVES = new Set(['for-item', 'for-index']);
+
+/**
+ * The names of loop directive, `for-items` is the legacy alias of `for`.
+ */
+const FOR_DIRECTIVE_NAMES = new Set(['for', 'for-items']);
+
+/**
+ * Check whether the directive name is the loop directive, e.g. `for` of `s-for`, `for-items` of `wx:for-items`.
+ * @param name The directive name without prefix.
+ */
+export function isForDirectiveName(name: string): boolean {
+    return FOR_DIRECTIVE_NAMES.has(name);
+}
+
 /**
  * Parse the content of the given mustache.
  * @param parserOptions The parser options to parse expressions.
@@ -236,7 +497,7 @@ export function processMustache(
     }
 
     // s-for 需要特殊处理
-    if (node.parent.type === 'XDirective' && node.parent.key.name === 'for') {
+    if (node.parent.type === 'XDirective' && isForDirectiveName(node.parent.key.name)) {
         debug('[template] convert for directive {{%s}} %j', mustache.value, (mustache as any).range);
         processForExpression(
             parserOptions,
@@ -245,6 +506,15 @@ export function processMustache(
             code
         );
     }
+    // s-for-item, s-for-index 声明循环变量
+    else if (node.parent.type === 'XDirective' && FOR_VARIABLE_DIRECTIVES.has(node.parent.key.name)) {
+        processForVariable(
+            parserOptions,
+            globalLocationCalculator,
+            node.value,
+            code
+        );
+    }
     else {
         // 支持 {{abc: 1,def: 2}} 差值语法
         if (memberExpression.test(code) && mustache.startToken.value === '{{') {
@@ -265,7 +535,65 @@ export function processMustache(
             node.value,
             code
         );
+
+        if (node.binding === 'two-way') {
+            validateTwoWayBinding(node.value);
+        }
+    }
+}
+
+/**
+ * Check whether the expression of two-way binding `{= =}` is assignable.
+ * @param node The expression container of two-way binding.
+ */
+function validateTwoWayBinding(node: XExpression): void {
+    const {expression} = node;
+    if (expression == null
+        || expression.type === 'Identifier'
+        || expression.type === 'MemberExpression') {
+        return;
     }
+
+    reportError(getOwnerDocument(node), expression as HasLocation, 'x-invalid-two-way-binding');
+}
+
+/**
+ * Set the identifier of the given code as the expression of the node.
+ * @param globalLocationCalculator The location calculator to adjust the locations of nodes.
+ * @param node The expression container node.
+ * @param identifierMatch The match result of `IDENTIFIER`.
+ * @returns The identifier node.
+ */
+function setIdentifierExpression(
+    globalLocationCalculator: LocationCalculator,
+    node: XExpression,
+    identifierMatch: RegExpMatchArray
+): Identifier {
+    const [,identifierLeft, identifierName] = identifierMatch;
+    const range: OffsetRange = [
+        node.range[0] + identifierLeft.length,
+        node.range[0] + identifierLeft.length + identifierName.length
+    ];
+    const loc = {
+        start: globalLocationCalculator.getLocation(range[0]),
+        end: globalLocationCalculator.getLocation(range[1])
+    };
+    const identifier: Identifier = {
+        type: 'Identifier',
+        name: identifierName,
+        range,
+        loc
+    };
+    const token = {
+        type: 'Identifier',
+        range,
+        loc,
+        value: identifierName
+    };
+    node.expression = identifier;
+    (node.expression as HasParent).parent = node;
+    replaceTokens(getOwnerDocument(node), {range: node.range}, [token]);
+    return identifier;
 }
 
 export function processExpression(
@@ -276,38 +604,18 @@ export function processExpression(
 ): void {
     debug('[template] convert expression {{%s}} %j', code, node.range);
     // 处理仅有 1 个变量的插值语法 "abc", "{{abc}}"
-    const identifierReg = /^(\s*)(\w+)\s*$/;
     let identifierMatch: RegExpMatchArray = null;
-    if (identifierMatch = identifierReg.exec(code)) {
-        const [,identifierLeft, identifierName] = identifierMatch;
-        const range: OffsetRange = [
-            node.range[0] + identifierLeft.length,
-            node.range[0] + identifierLeft.length + identifierName.length
-        ];
-        const loc = {
-            start: globalLocationCalculator.getLocation(range[0]),
-            end: globalLocationCalculator.getLocation(range[1])
-        };
-        const identifier: Identifier = {
-            type: 'Identifier',
-            name: identifierName,
-            range,
-            loc
-        };
-        const token = {
-            type: 'Identifier',
-            range,
-            loc,
-            value: identifierName
-        };
-        node.expression = identifier;
+    if (identifierMatch = IDENTIFIER.exec(code)) {
+        const identifier = setIdentifierExpression(globalLocationCalculator, node, identifierMatch);
         node.references = [{
             id: identifier,
             mode: 'r',
             variable: null,
         }];
-        (node.expression as HasParent).parent = node;
-        replaceTokens(getOwnerDocument(node), {range: node.range}, [token]);
+        resolveReferences(node);
+        return;
+    }
+    if (reuseExpression(globalLocationCalculator, node, 'expression', code)) {
         resolveReferences(node);
         return;
     }
@@ -332,6 +640,7 @@ export function processExpression(
         if (ret.tokens.length) {
             replaceTokens(document, {range}, ret.tokens);
         }
+        expressionSources.set(node, `expression:${code}`);
         resolveReferences(node);
     }
     catch (e) {
@@ -359,6 +668,7 @@ export function processExpression(
                     if (ret.tokens.length) {
                         replaceTokens(document, {range}, ret.tokens);
                     }
+                    expressionSources.set(node, `expression:${code}`);
                     resolveReferences(node);
                 }
                 catch (kew) {
@@ -375,6 +685,81 @@ export function processExpression(
     }
 }
 
+/**
+ * Get the loop variable which is declared by `s-for-item` or `s-for-index` directive.
+ * @param element The element which has the `s-for` directive.
+ * @param name The directive name, `for-item` or `for-index`.
+ */
+function getForVariableId(element: XElement, name: string): Identifier | null {
+    const directive = element.startTag.attributes.find(
+        attr => attr.type === 'XDirective' && attr.key.name === name
+    );
+    const value = directive && directive.value[0];
+    const container = value && (value.type === 'XMustache' ? value.value : value);
+    if (container && container.type === 'XExpression'
+        && container.expression && container.expression.type === 'Identifier') {
+        return container.expression as Identifier;
+    }
+    return null;
+}
+
+/**
+ * Get the expression container of `s-for` directive which defines the loop variables.
+ * @param element The element to get.
+ * @returns The expression container, or `null` if the element has no valid `s-for` directive.
+ */
+export function getForExpression(element: XElement): XExpression | null {
+    const directive = element.startTag.attributes.find(
+        attr => attr.type === 'XDirective' && isForDirectiveName(attr.key.name)
+    );
+    const value = directive && directive.value[0];
+    const container = value && (value.type === 'XMustache' ? value.value : value);
+    if (container && container.type === 'XExpression'
+        && container.expression && container.expression.type === 'SwanForExpression') {
+        return container;
+    }
+    return null;
+}
+
+/**
+ * Create the identifier of the implicit loop variable, it is located at the key of `s-for` directive.
+ * @param name The variable name, `item` or `index`.
+ * @param key The key of `s-for` directive.
+ */
+function createImplicitForVariableId(name: string, key: XDirectiveKey): Identifier {
+    return {
+        type: 'Identifier',
+        name,
+        range: [key.range[0], key.range[1]],
+        loc: {start: key.loc.start, end: key.loc.end}
+    };
+}
+
+/**
+ * Define the loop variables of `s-for` directive to the element.
+ * The variable names come from `item, index in list`, `s-for-item`, `s-for-index` or default `item`, `index`.
+ * @param element The element which has the `s-for` directive.
+ * @param expression The parsed `s-for` expression.
+ * @param node The expression container of `s-for` directive.
+ */
+function defineForVariables(element: XElement, expression: SwanForExpression, node: XExpression): void {
+    const directive = (node.parent.type === 'XMustache' ? node.parent.parent : node.parent) as XDirective;
+    const itemId = (expression.left && expression.left.type === 'Identifier' ? expression.left : null)
+        || getForVariableId(element, 'for-item')
+        || createImplicitForVariableId('item', directive.key);
+    const indexId = (expression.index && expression.index.type === 'Identifier' ? expression.index : null)
+        || getForVariableId(element, 'for-index')
+        || createImplicitForVariableId('index', directive.key);
+
+    for (const id of [itemId, indexId]) {
+        element.variables.push({
+            id,
+            kind: 'for',
+            references: []
+        });
+    }
+}
+
 type ForBlock = {
     code: string;
     range: [number, number];
@@ -385,6 +770,30 @@ interface KeywordToken<T extends string> extends HasRange, HasLocation {
     value: T;
 };
 
+/**
+ * Resolve the references of `s-for` expression and define the loop variables to the element.
+ * @param node The expression container of `s-for` directive, its expression is `SwanForExpression`.
+ */
+export function resolveForReferences(node: XExpression): void {
+    const expression = node.expression as SwanForExpression;
+    const element = getOwnerElement(node);
+    if (element == null) {
+        return;
+    }
+
+    // 循环的列表在父级作用域中求值，trackBy 可以引用循环变量
+    const {trackBy} = expression;
+    const isTrackByReference = (reference: Reference) => trackBy != null
+        && reference.id.range![0] >= (trackBy as HasLocation).range[0];
+    for (const reference of node.references.filter(reference => !isTrackByReference(reference))) {
+        resolveReference(reference, element.parent);
+    }
+    defineForVariables(element, expression, node);
+    for (const reference of node.references.filter(isTrackByReference)) {
+        resolveReference(reference, element);
+    }
+}
+
 export function processForExpression(
     rawParserOptions: ScriptParserOptions,
     globalLocationCalculator: LocationCalculator,
@@ -392,6 +801,11 @@ export function processForExpression(
     code: string
 ): void {
     debug('[template] convert expression {{%s}} %j', code, node.range);
+    if (reuseExpression(globalLocationCalculator, node, 'for', code)) {
+        resolveForReferences(node);
+        return;
+    }
+
     const parserOptions = {
         ...rawParserOptions,
         // TODO: s-for 指令不属于标准语法，不进行 token 替换
@@ -456,6 +870,7 @@ export function processForExpression(
     const document = getOwnerDocument(node);
     try {
         const references = [];
+        const trackByReferences = [];
         const tokens = [];
         const swanForExpression: SwanForExpression = {
             type: 'SwanForExpression',
@@ -478,7 +893,7 @@ export function processForExpression(
                 locationCalculator,
                 parserOptions
             ) as ExpressionParseResult<ArrayExpression>;
-            references.push(...ret.references);
+            // 循环变量是声明，不作为引用
             if (ret.expression.elements.length) {
                 swanForExpression.left = ret.expression.elements[0] as unknown as Identifier;
                 (swanForExpression.left as any).parent = swanForExpression;
@@ -524,7 +939,7 @@ export function processForExpression(
                 locationCalculator,
                 parserOptions
             );
-            references.push(...ret.references);
+            trackByReferences.push(...ret.references);
             swanForExpression.trackBy = ret.expression as unknown as Identifier;
             if (swanForExpression.trackBy != null) {
                 (swanForExpression.trackBy as any).parent = swanForExpression;
@@ -537,12 +952,13 @@ export function processForExpression(
 
         swanForExpression.parent = node;
         node.expression = swanForExpression;
-        node.references = references;
+        node.references = [...references, ...trackByReferences];
 
         if (tokens.length) {
             replaceTokens(document, {range: node.range}, tokens);
         }
-        resolveReferences(node);
+        expressionSources.set(node, `for:${code}`);
+        resolveForReferences(node);
     }
     catch (e) {
         debug('[template] Parse error: %s', e);
@@ -558,6 +974,36 @@ export function processForExpression(
 
 
 
+/**
+ * Parse the loop variable name of `s-for-item` and `s-for-index` directives.
+ * The name is a declaration, so it doesn't have references.
+ * @param parserOptions The parser options to parse expressions.
+ * @param globalLocationCalculator The location calculator to adjust the locations of nodes.
+ * @param node The expression container node.
+ * @param code The variable name.
+ */
+export function processForVariable(
+    parserOptions: ScriptParserOptions,
+    globalLocationCalculator: LocationCalculator,
+    node: XExpression,
+    code: string
+): void {
+    debug('[template] convert for variable {{%s}} %j', code, node.range);
+    const identifierMatch = IDENTIFIER.exec(code);
+    if (!identifierMatch) {
+        processExpression(
+            parserOptions,
+            globalLocationCalculator,
+            node,
+            code
+        );
+        return;
+    }
+
+    setIdentifierExpression(globalLocationCalculator, node, identifierMatch);
+    node.references = [];
+}
+
 /**
  * Parse the content of the given script block.
  * @param parserOptions The parser options to parse expressions.
@@ -569,7 +1015,7 @@ export function processScriptModule(
     globalLocationCalculator: LocationCalculator,
     node: XElement
 ) {
-    debug('[template] parse import-sjs module %s %j', node.name, node.range);
+    debug('[template] parse script module %s %j', node.name, node.range);
     const parserOptions = {
         tokens: true,
         comment: true,
@@ -589,6 +1035,10 @@ export function processScriptModule(
         };
         node.children.splice(0, 1, moduleContainer);
 
+        for (const error of validateScriptModule(ast.body as Node[], references.map(ref => ref.id))) {
+            insertError(document, error);
+        }
+
         if (ast.tokens && ast.tokens.length > 0) {
             replaceTokens(document, {range: ast.range}, ast.tokens);
         }
@@ -610,18 +1060,14 @@ export function processScriptModule(
 /**
  * Resolve all references of the given expression container.
  * @param expression The expression container to resolve references.
+ * @param references The references to resolve, all references of the expression by default.
  */
-export function resolveReferences(expression: XExpression): void {
-    let element: XNode = expression.parent;
-
-    // Get the belonging element.
-    while (element != null && element.type !== 'XElement') {
-        element = element.parent;
-    }
+export function resolveReferences(expression: XExpression, references: Reference[] = expression.references): void {
+    const element = getOwnerElement(expression);
 
     // Resolve.
     if (element != null) {
-        for (const reference of expression.references) {
+        for (const reference of references) {
             resolveReference(reference, element);
         }
     }
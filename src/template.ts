@@ -0,0 +1,97 @@
+/**
+ * @file 模板定义和使用
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {
+    XDocument, XLiteral, XTemplateDefinition, XTemplateTable, XTemplateUsage
+} from '../types/ast';
+import {getAttribute, getStaticAttributeValue, reportError, walkElements} from './swan-lang';
+
+/**
+ * Collect the template definitions and usages of the given document.
+ * @param document The document to analyze.
+ * @returns The template table.
+ */
+function createTemplateTable(document: XDocument): XTemplateTable {
+    const definitions: XTemplateDefinition[] = [];
+    const usages: XTemplateUsage[] = [];
+
+    walkElements(document, element => {
+        if (element.name !== 'template') {
+            return;
+        }
+
+        const nameNode = getAttribute(element, 'name');
+        if (nameNode != null) {
+            if (getStaticAttributeValue(nameNode) != null && nameNode.value.length) {
+                const value = nameNode.value[0] as XLiteral;
+                definitions.push({
+                    name: value.value.trim(),
+                    nameNode: value,
+                    element,
+                    usages: []
+                });
+            }
+            return;
+        }
+
+        const isNode = getAttribute(element, 'is');
+        if (isNode != null) {
+            const name = getStaticAttributeValue(isNode);
+            usages.push({
+                name: name != null ? name.trim() : null,
+                dynamic: name == null,
+                isNode,
+                dataNode: getAttribute(element, 'data'),
+                element,
+                definition: null
+            });
+        }
+    });
+
+    return {definitions, usages};
+}
+
+/**
+ * Link the template usages to the local definitions, and report duplicate and undefined templates.
+ * The templates may come from `<import>`, so undefined templates are reported only if there is no import.
+ * @param document The document to analyze.
+ */
+export function analyzeTemplates(document: XDocument): void {
+    const table = createTemplateTable(document);
+    const definitionMap = new Map<string, XTemplateDefinition>();
+    for (const definition of table.definitions) {
+        if (definitionMap.has(definition.name)) {
+            reportError(document, definition.nameNode, 'x-duplicate-template-name');
+            continue;
+        }
+        definitionMap.set(definition.name, definition);
+    }
+
+    let hasImport = false;
+    walkElements(document, element => {
+        hasImport = hasImport || element.name === 'import';
+    });
+
+    for (const usage of table.usages) {
+        if (usage.dynamic) {
+            continue;
+        }
+        const definition = definitionMap.get(usage.name);
+        if (definition) {
+            usage.definition = definition;
+            definition.usages.push(usage);
+        }
+        else if (!hasImport) {
+            reportError(document, usage.isNode.value[0] || usage.isNode, 'x-undefined-template');
+        }
+    }
+
+    Object.defineProperty(document, 'templates', {
+        value: table,
+        enumerable: false,
+        configurable: true,
+        writable: true
+    });
+}
@@ -7,9 +7,11 @@
 /* eslint-disable no-constant-condition, no-param-reassign, no-magic-numbers */
 
 import assert from 'assert';
+import last from 'lodash/last';
 import {debug, ParseError} from './common';
 import {ErrorCode, Token} from '../types/ast';
 import {
+    AMPERSAND,
     APOSTROPHE,
     CARRIAGE_RETURN,
     EOF,
@@ -19,6 +21,7 @@ import {
     GREATER_THAN_SIGN,
     HYPHEN_MINUS,
     isControl,
+    isDigit,
     isLetter,
     isNonCharacter,
     isSurrogate,
@@ -28,6 +31,7 @@ import {
     LEFT_CURLY_BRACKET,
     LESS_THAN_SIGN,
     LINE_FEED,
+    NAMED_CHARACTER_REFERENCES,
     NULL,
     NULL_REPLACEMENT,
     QUESTION_MARK,
@@ -99,7 +103,10 @@ export type TokenizerState =
     | 'X_EXPRESSION_START'
     | 'X_EXPRESSION_END'
 
-
+/**
+ * The character reference, e.g. `&amp;`, `&#60;` and `&#x3c;`.
+ */
+const CHARACTER_REFERENCE = /&(?:#([xX][0-9a-fA-F]*|[0-9]*)|([A-Za-z][A-Za-z0-9]*))(;?)/y;
 
 /**
  * Tokenizer for HTML.
@@ -136,6 +143,8 @@ export default class Tokenizer {
 
     private lastTagOpenToken: Token | null;
 
+    private mustacheOpened: boolean;
+
     private tokenStartOffset: number;
 
     private tokenStartLine: number;
@@ -166,16 +175,20 @@ export default class Tokenizer {
     /**
      * Initialize this tokenizer.
      * @param text The source code to tokenize.
+     * @param startOffset The offset to start tokenizing, it should be in the `DATA` state.
      */
-    public constructor(text: string) {
+    public constructor(text: string, startOffset = 0) {
         debug('[swan] the source code length: %d', text.length);
         this.text = text;
         this.gaps = [];
         this.lineTerminators = [];
+        for (let i = text.indexOf('\n'); i !== -1 && i < startOffset; i = text.indexOf('\n', i + 1)) {
+            this.lineTerminators.push(i + 1);
+        }
         this.lastCodePoint = NULL;
-        this.offset = -1;
-        this.column = -1;
-        this.line = 1;
+        this.offset = startOffset - 1;
+        this.column = startOffset - (this.lineTerminators.length ? last(this.lineTerminators)! : 0) - 1;
+        this.line = this.lineTerminators.length + 1;
         this.state = 'DATA';
         this.returnState = 'DATA';
         this.reconsuming = false;
@@ -185,6 +198,7 @@ export default class Tokenizer {
         this.provisionalToken = null;
         this.currentToken = null;
         this.lastTagOpenToken = null;
+        this.mustacheOpened = false;
         this.tokenStartOffset = -1;
         this.tokenStartColumn = -1;
         this.tokenStartLine = 1;
@@ -527,6 +541,93 @@ export default class Tokenizer {
         token.value += String.fromCodePoint(cp);
     }
 
+    /**
+     * Get the code point of the numeric character reference, invalid code points are reported.
+     * https://html.spec.whatwg.org/multipage/parsing.html#numeric-character-reference-end-state
+     * @param digits The digits of the reference, `x` prefixed if it's hexadecimal.
+     * @returns The code point.
+     */
+    private getNumericCharacterReference(digits: string): number {
+        const cp = digits[0] === 'x' || digits[0] === 'X'
+            ? parseInt(digits.slice(1), 16)
+            : parseInt(digits, 10);
+        if (cp === NULL) {
+            this.reportParseError('null-character-reference');
+            return NULL_REPLACEMENT;
+        }
+        if (cp > 0x10FFFF) {
+            this.reportParseError('character-reference-outside-unicode-range');
+            return NULL_REPLACEMENT;
+        }
+        if (isSurrogate(cp)) {
+            this.reportParseError('surrogate-character-reference');
+            return NULL_REPLACEMENT;
+        }
+        if (isNonCharacter(cp)) {
+            this.reportParseError('noncharacter-character-reference');
+        }
+        else if (cp === CARRIAGE_RETURN || (isControl(cp) && !isWhitespace(cp))) {
+            this.reportParseError('control-character-reference');
+        }
+        return cp;
+    }
+
+    /**
+     * Consume the character reference at the current `&`, e.g. `&amp;`, `&#60;` and `&#x3c;`.
+     * Like swan, only the references terminated by `;` are decoded, the others are kept as is.
+     * The removed characters are recorded in `gaps`.
+     * https://html.spec.whatwg.org/multipage/parsing.html#character-reference-state
+     * @param expected The expected type of the current token.
+     * @returns The next code point.
+     */
+    private consumeCharacterReference(expected: TokenType): number {
+        CHARACTER_REFERENCE.lastIndex = this.offset;
+        const match = CHARACTER_REFERENCE.exec(this.text);
+        let value: string | null = null;
+
+        // ambiguous ampersands like `a && b` are not references
+        if (match != null && match[2] != null) {
+            const name = match[2];
+            const known = Object.prototype.hasOwnProperty.call(NAMED_CHARACTER_REFERENCES, name);
+            if (match[3] && known) {
+                value = NAMED_CHARACTER_REFERENCES[name];
+            }
+            else if (match[3]) {
+                this.reportParseError('unknown-named-character-reference');
+            }
+            else if (known) {
+                this.reportParseError('missing-semicolon-after-character-reference');
+            }
+        }
+        else if (match != null && !/[0-9a-fA-F]/.test(match[1])) {
+            this.reportParseError('absence-of-digits-in-numeric-character-reference');
+        }
+        else if (match != null && !match[3]) {
+            this.reportParseError('missing-semicolon-after-character-reference');
+        }
+        else if (match != null) {
+            value = String.fromCodePoint(this.getNumericCharacterReference(match[1]));
+        }
+
+        if (value == null) {
+            this.appendTokenValue(AMPERSAND, expected);
+            return this.consumeNextCodePoint();
+        }
+
+        const start = this.offset;
+        const end = start + match![0].length;
+        for (const cp of Array.from(value)) {
+            this.appendTokenValue(cp.codePointAt(0) as number, expected);
+        }
+        while (this.offset < end - 1) {
+            this.consumeNextCodePoint();
+        }
+        for (let i = start + value.length; i < end; i++) {
+            this.gaps.push(i);
+        }
+        return this.consumeNextCodePoint();
+    }
+
     /**
      * Check whether the current token is appropriate `HTMLEndTagOpen` token.
      * @returns {boolean} `true` if the current token is appropriate `HTMLEndTagOpen` token.
@@ -575,6 +676,11 @@ export default class Tokenizer {
                 return 'DATA';
             }
 
+            if (cp === AMPERSAND && !this.mustacheOpened) {
+                cp = this.consumeCharacterReference(type);
+                continue;
+            }
+
             if (cp === NULL) {
                 this.reportParseError('unexpected-null-character');
             }
@@ -619,6 +725,11 @@ export default class Tokenizer {
                 return 'DATA';
             }
 
+            if (cp === AMPERSAND && !this.mustacheOpened) {
+                cp = this.consumeCharacterReference(type);
+                continue;
+            }
+
             if (cp === NULL) {
                 this.reportParseError('unexpected-null-character');
                 cp = NULL_REPLACEMENT;
@@ -827,7 +938,8 @@ export default class Tokenizer {
                 this.startToken('HTMLTagClose');
                 return 'DATA';
             }
-            if (!isLetter(cp)) {
+            // the custom tag names have digits and hyphens, e.g. `code-block`, `h5`
+            if (!isLetter(cp) && !isDigit(cp) && cp !== HYPHEN_MINUS) {
                 this.rollbackProvisionalToken();
                 this.appendTokenValue(LESS_THAN_SIGN, 'HTMLRCDataText');
                 this.appendTokenValue(SOLIDUS, 'HTMLRCDataText');
@@ -898,7 +1010,7 @@ export default class Tokenizer {
                 this.endToken();
                 return 'BEFORE_ATTRIBUTE_NAME';
             }
-            if (!isLetter(cp) && cp !== HYPHEN_MINUS) {
+            if (!isLetter(cp) && !isDigit(cp) && cp !== HYPHEN_MINUS) {
                 this.rollbackProvisionalToken();
                 this.appendTokenValue(LESS_THAN_SIGN, 'HTMLRawText');
                 this.appendTokenValue(SOLIDUS, 'HTMLRawText');
@@ -1086,6 +1198,7 @@ export default class Tokenizer {
 
             if (cp === QUOTATION_MARK) {
                 this.startToken('HTMLQuote');
+                this.mustacheOpened = false;
                 this.appendTokenValue(cp, null);
                 return 'AFTER_ATTRIBUTE_VALUE_QUOTED';
             }
@@ -1099,6 +1212,11 @@ export default class Tokenizer {
             //     this.reportParseError('unexpected-line-break');
             // }
 
+            if (cp === AMPERSAND && !this.mustacheOpened) {
+                cp = this.consumeCharacterReference(tokenType);
+                continue;
+            }
+
             if (cp === NULL) {
                 this.reportParseError('unexpected-null-character');
             }
@@ -1141,6 +1259,7 @@ export default class Tokenizer {
 
             if (cp === APOSTROPHE) {
                 this.startToken('HTMLQuote');
+                this.mustacheOpened = false;
                 this.appendTokenValue(cp, null);
                 return 'AFTER_ATTRIBUTE_VALUE_QUOTED';
             }
@@ -1153,6 +1272,11 @@ export default class Tokenizer {
                 this.reportParseError('unexpected-line-break');
             }
 
+            if (cp === AMPERSAND && !this.mustacheOpened) {
+                cp = this.consumeCharacterReference(tokenType);
+                continue;
+            }
+
             if (cp === NULL) {
                 this.reportParseError('unexpected-null-character');
             }
@@ -1200,6 +1324,11 @@ export default class Tokenizer {
                 return 'DATA';
             }
 
+            if (cp === AMPERSAND) {
+                cp = this.consumeCharacterReference('HTMLLiteral');
+                continue;
+            }
+
             this.appendTokenValue(cp, 'HTMLLiteral');
             cp = this.consumeNextCodePoint();
         }
@@ -1514,6 +1643,7 @@ export default class Tokenizer {
             this.appendTokenValue(LEFT_CURLY_BRACKET, null);
             this.appendTokenValue(LEFT_CURLY_BRACKET, null);
             this.tagOpenEnabled = false;
+            this.mustacheOpened = true;
             return this.returnState;
         }
         // {=
@@ -1522,6 +1652,7 @@ export default class Tokenizer {
             this.startToken('XMustacheStart');
             this.appendTokenValue(LEFT_CURLY_BRACKET, null);
             this.appendTokenValue(EQUALS_SIGN, null);
+            this.mustacheOpened = true;
             return this.returnState;
         }
         this.appendTokenValue(LEFT_CURLY_BRACKET, null);
@@ -1540,6 +1671,7 @@ export default class Tokenizer {
             this.appendTokenValue(this.text.codePointAt(this.offset - 1), null);
             this.appendTokenValue(RIGHT_CURLY_BRACKET, null);
             this.tagOpenEnabled = true;
+            this.mustacheOpened = false;
             return this.returnState;
         }
 
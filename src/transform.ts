@@ -0,0 +1,847 @@
+/**
+ * @file 模板转换
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {
+    HasLocation, Mustache, OffsetRange, Token, XAttribute, XDirective, XDocument, XElement, XEndTag, XExpression,
+    XMustache, XText
+} from '../types/ast';
+import {ParserOptions} from '../types/parser';
+import {Reference} from '../types/script';
+import {GenerateResult, TransformChildNode, TransformNode, TransformVisitor} from '../types/transform';
+import {isSyntheticNode} from './builders';
+import {resolveParserOptions} from './common';
+import {LocationCalculator} from './location-calculator';
+import Parser, {getParseSnapshot} from './parser';
+import {printChunks} from './printer';
+import {traverseNodes} from './script/traverse';
+import SourceMapBuilder from './source-map';
+import {getForExpression, resolveForReferences, resolveReferences} from './swan-lang';
+import Tokenizer from './tokenizer';
+
+type ParentNode = XDocument | XElement;
+type NodeSource = TransformChildNode | string;
+
+/**
+ * The token of inserted node, the range is the location of the token in the source of the node.
+ */
+interface InsertedToken {
+    token: Token;
+    range: OffsetRange;
+}
+
+const WHITESPACE_ONLY = /^[ \t\n\r\f]*$/;
+
+/**
+ * The directives which define the loop variables of element.
+ */
+const FOR_VARIABLE_DIRECTIVES = ['for', 'for-items', 'for-item', 'for-index'];
+
+const MUSTACHES = /\{\{[\s\S]*?\}\}|\{=[\s\S]*?=\}/g;
+
+/**
+ * Quote the attribute value by double quotes, or single quotes if it contains double quotes.
+ * If it contains both, the quotes outside of mustaches are escaped as `&quot;` or `&#39;`,
+ * because the character references in mustaches are not decoded.
+ * @param value The source text of attribute value.
+ */
+function quoteAttributeValue(value: string): string {
+    if (!value.includes('"')) {
+        return `"${value}"`;
+    }
+    if (!value.includes('\'')) {
+        return `'${value}'`;
+    }
+    const mustaches = value.match(MUSTACHES) || [];
+    if (!mustaches.some(mustache => mustache.includes('"'))) {
+        return `"${value.replace(/"/g, '&quot;')}"`;
+    }
+    if (!mustaches.some(mustache => mustache.includes('\''))) {
+        return `'${value.replace(/'/g, '&#39;')}'`;
+    }
+    throw new Error(`The attribute value can not be quoted: ${value}`);
+}
+
+/**
+ * Get the offsets of the characters after line breaks.
+ * @param code The source code.
+ */
+function getLineBreakOffsets(code: string): number[] {
+    const offsets: number[] = [];
+    for (let i = code.indexOf('\n'); i !== -1; i = code.indexOf('\n', i + 1)) {
+        offsets.push(i + 1);
+    }
+    return offsets;
+}
+
+/**
+ * Check whether the node is a text which has whitespaces only.
+ * @param node The child node.
+ */
+function isWhitespaceText(node: TransformChildNode | undefined): node is XText {
+    return node != null && node.type === 'XText' && WHITESPACE_ONLY.test(node.value);
+}
+
+/**
+ * Get the document which the node belongs to.
+ * @param node The node.
+ * @returns The document, or `null` if the node is not in any document.
+ */
+function getRootDocument(node: any): XDocument | null {
+    let current = node;
+    while (current != null && current.type !== 'XDocument') {
+        current = current.parent;
+    }
+    return current;
+}
+
+/**
+ * Collect the references of the expressions in the node.
+ * @param node The node to collect.
+ */
+function collectReferences(node: object): Reference[] {
+    const references: Reference[] = [];
+    traverseNodes(node as any, {
+        enterNode(child) {
+            if (child.type === 'XExpression') {
+                references.push(...(child as XExpression).references);
+            }
+        },
+        leaveNode() {
+            // Do nothing.
+        },
+    });
+    return references;
+}
+
+/**
+ * Transform the document by mutation helpers, and generate the source code with the source map.
+ * The new nodes are parsed from the code snippets, they are printed from the snippets,
+ * and the source text of other nodes is kept as is.
+ * The tokens of new nodes are added to the document tokens in order, they are located at the next token
+ * because they have no source text in the document. The references of new nodes are resolved by their ancestors.
+ */
+export default class Transformer {
+    private document: XDocument;
+
+    private parserOptions: ParserOptions;
+
+    private insertedNodes: WeakSet<object>;
+
+    private insertedTokens: WeakMap<object, InsertedToken[]>;
+
+    private pendingTokens: WeakMap<object, InsertedToken[]>;
+
+    private tokenCopies: WeakSet<Token>;
+
+    /**
+     * Initialize this transformer.
+     * @param document The document returned by `parse()` or `reparse()`.
+     * @param parserOptions The parser options to parse the code snippets, the default options are applied.
+     */
+    public constructor(document: XDocument, parserOptions: ParserOptions) {
+        if (getParseSnapshot(document) == null) {
+            throw new Error('The document to transform should be created by `parse()` or `reparse()`.');
+        }
+        this.document = document;
+        // the code snippets are parsed in the dialect of the document
+        this.parserOptions = {...resolveParserOptions(parserOptions), dialect: document.xmlType} as ParserOptions;
+        this.insertedNodes = new WeakSet();
+        this.insertedTokens = new WeakMap();
+        this.pendingTokens = new WeakMap();
+        this.tokenCopies = new WeakSet();
+    }
+
+    /**
+     * Visit the elements, texts, mustaches, attributes and expressions in document order.
+     * The nodes which are inserted during visiting are not visited, and the removed nodes are not entered.
+     * @param visitor The functions to call by node type.
+     */
+    public transform(visitor: TransformVisitor<Transformer>): void {
+        this.visitChildren(this.document, visitor);
+    }
+
+    /**
+     * Parse the element from the code snippet.
+     * @param code The code of element, e.g. `<view class="a"></view>`.
+     */
+    public createElement(code: string): XElement {
+        const element = this.parseSnippet(code).children.find(child => child.type === 'XElement');
+        if (element == null) {
+            throw new Error(`The code of element is invalid: ${code}`);
+        }
+        return element as XElement;
+    }
+
+    /**
+     * Insert the node before the reference node, the indentation of the reference node is copied.
+     * @param reference The reference node.
+     * @param node The node or the code of element to insert.
+     */
+    public insertBefore(reference: TransformChildNode, node: NodeSource): TransformChildNode {
+        const newNode = this.prepareInsert(node);
+        const siblings = this.getSiblings(reference);
+        const index = siblings.indexOf(reference);
+        const previous = siblings[index - 1];
+        const inserted = isWhitespaceText(previous) ? [newNode, this.cloneText(previous)] : [newNode];
+        this.insertNodes(reference.parent as ParentNode, index, inserted);
+        return newNode;
+    }
+
+    /**
+     * Insert the node after the reference node, the indentation of the reference node is copied.
+     * @param reference The reference node.
+     * @param node The node or the code of element to insert.
+     */
+    public insertAfter(reference: TransformChildNode, node: NodeSource): TransformChildNode {
+        const newNode = this.prepareInsert(node);
+        const siblings = this.getSiblings(reference);
+        const index = siblings.indexOf(reference);
+        const previous = siblings[index - 1];
+        const inserted = isWhitespaceText(previous) ? [this.cloneText(previous), newNode] : [newNode];
+        this.insertNodes(reference.parent as ParentNode, index + 1, inserted);
+        return newNode;
+    }
+
+    /**
+     * Append the node to the children of element, the self-closing element gets an end tag.
+     * @param parent The parent element or document.
+     * @param node The node or the code of element to append.
+     */
+    public appendChild(parent: ParentNode, node: NodeSource): TransformChildNode {
+        const reference = [...parent.children].reverse().find(child => !isWhitespaceText(child));
+        if (reference != null) {
+            return this.insertAfter(reference, node);
+        }
+
+        const newNode = this.prepareInsert(node);
+        if (parent.type === 'XElement' && parent.endTag == null) {
+            const endTag: XEndTag = {
+                type: 'XEndTag',
+                range: [parent.range[1], parent.range[1]],
+                loc: {start: parent.loc.end, end: parent.loc.end},
+                parent
+            };
+            parent.startTag.selfClosing = false;
+            parent.endTag = endTag;
+        }
+        this.insertNodes(parent, parent.children.length, [newNode]);
+        return newNode;
+    }
+
+    /**
+     * Remove the node from its parent, the whitespaces before the node are also removed.
+     * The tokens, comments, errors and references in the removed source are removed from document.
+     * @param node The node to remove.
+     */
+    public removeElement(node: TransformChildNode): void {
+        const siblings = this.getSiblings(node);
+        const index = siblings.indexOf(node);
+        const previous = siblings[index - 1];
+        const count = isWhitespaceText(previous) ? 2 : 1;
+        const start = count === 2 ? previous.range[0] : node.range[0];
+
+        siblings.splice(index - count + 1, count);
+        if (!this.isInserted(node)) {
+            this.removeSource(start, node.range[1]);
+        }
+        this.removeInsertedTokens(node);
+        this.removeReferences(node);
+    }
+
+    /**
+     * Replace the node with the new node.
+     * @param node The node to replace.
+     * @param newNode The new node or the code of element.
+     */
+    public replaceElement(node: TransformChildNode, newNode: NodeSource): TransformChildNode {
+        const inserted = this.prepareInsert(newNode);
+        const siblings = this.getSiblings(node);
+        const index = siblings.indexOf(node);
+        siblings.splice(index, 1);
+        if (!this.isInserted(node)) {
+            this.removeSource(node.range[0], node.range[1]);
+        }
+        this.removeInsertedTokens(node);
+        this.removeReferences(node);
+        this.insertNodes(node.parent as ParentNode, index, [inserted]);
+        return inserted;
+    }
+
+    /**
+     * Set the attribute of element, the value of existing attribute is replaced,
+     * or a new attribute is appended to the start tag.
+     * @param element The element.
+     * @param name The raw name of attribute or directive, e.g. `class`, `s-if`, `bind:tap`.
+     * @param value The source text of attribute value, e.g. `{{a}}`, omit it for the attribute without value.
+     */
+    public setAttribute(element: XElement, name: string, value?: string): XAttribute | XDirective {
+        const code = `<view ${name}${value == null ? '' : `=${quoteAttributeValue(value)}`}/>`;
+        const newAttribute = this.createElement(code).startTag.attributes[0];
+        const attribute = this.getAttribute(element, name);
+        if (attribute == null || attribute.type !== newAttribute.type) {
+            if (attribute != null) {
+                this.removeAttribute(element, name);
+            }
+            const tokens = this.getSourceTokens(newAttribute);
+            newAttribute.parent = element.startTag;
+            element.startTag.attributes.push(newAttribute);
+            this.insertedNodes.add(newAttribute);
+            // the tokens of attribute are before the close token of start tag
+            this.insertTokens(newAttribute, tokens, this.getLastTokenIndex(element.startTag));
+            this.resolveInsertedReferences(newAttribute);
+            return newAttribute;
+        }
+
+        const lastNode = attribute.value.length ? attribute.value[attribute.value.length - 1] : attribute.key;
+        const nextToken = this.getNextToken(lastNode);
+        if (attribute.value.length && !this.isInserted(attribute)) {
+            this.removeSource(attribute.value[0].range[0], lastNode.range[1]);
+        }
+        attribute.value.forEach(part => {
+            this.removeInsertedTokens(part);
+            this.removeReferences(part);
+        });
+        let tokenIndex = this.indexOfToken(nextToken);
+        attribute.value = newAttribute.value;
+        attribute.value.forEach(part => {
+            const tokens = this.getSourceTokens(part);
+            part.parent = attribute as XAttribute;
+            this.insertedNodes.add(part);
+            this.insertTokens(part, tokens, tokenIndex);
+            tokenIndex += tokens.length;
+            this.resolveInsertedReferences(part);
+        });
+        if (attribute.type === 'XAttribute') {
+            attribute.classList = (newAttribute as XAttribute).classList;
+            attribute.declarations = (newAttribute as XAttribute).declarations;
+            (attribute.declarations || []).forEach(declaration => {
+                declaration.parent = attribute as XAttribute;
+            });
+        }
+        return attribute;
+    }
+
+    /**
+     * Remove the attribute of element.
+     * @param element The element.
+     * @param name The raw name of attribute or directive.
+     * @returns The removed attribute, or `null` if it doesn't exist.
+     */
+    public removeAttribute(element: XElement, name: string): XAttribute | XDirective | null {
+        const attribute = this.getAttribute(element, name);
+        if (attribute == null) {
+            return null;
+        }
+        const {attributes} = element.startTag;
+        attributes.splice(attributes.indexOf(attribute), 1);
+        if (!this.isInserted(attribute)) {
+            this.removeSource(attribute.range[0], attribute.range[1]);
+        }
+        this.removeInsertedTokens(attribute);
+        this.removeReferences(attribute);
+        return attribute;
+    }
+
+    /**
+     * Rename the element, the start tag and end tag are printed with the new name.
+     * @param element The element.
+     * @param name The new raw name, e.g. `custom-view`.
+     */
+    public renameElement(element: XElement, name: string): void {
+        if (!this.isInserted(element)) {
+            const tags = [element.startTag, element.endTag].filter(tag => tag != null);
+            this.document.tokens
+                .filter(token => (token.type === 'HTMLTagOpen' || token.type === 'HTMLEndTagOpen')
+                    && tags.some(tag => tag!.range[0] === token.range[0]))
+                .forEach(token => {
+                    token.value = name.toLowerCase();
+                });
+        }
+        element.rawName = name;
+        element.name = name.toLowerCase();
+    }
+
+    /**
+     * Replace the expression with the expression parsed from the code, in the context of the same mustache or directive.
+     * @param expression The expression to replace.
+     * @param code The source code of new expression, e.g. `a + 1`, `item in list`.
+     */
+    public rewriteExpression(expression: XExpression, code: string): XExpression {
+        const parent = expression.parent;
+        const newExpression = this.parseExpression(expression, code);
+        const tokens = this.getSourceTokens(newExpression);
+        const nextToken = this.getNextToken(expression);
+        if (!this.isInserted(expression)) {
+            this.removeSource(expression.range[0], expression.range[1]);
+        }
+        this.removeInsertedTokens(expression);
+        this.removeReferences(expression);
+        const tokenIndex = this.indexOfToken(nextToken);
+
+        if (parent.type === 'XMustache') {
+            parent.value = newExpression;
+        }
+        else {
+            parent.value.splice(parent.value.indexOf(expression), 1, newExpression);
+        }
+        newExpression.parent = parent;
+        this.insertedNodes.add(newExpression);
+        this.insertTokens(newExpression, tokens, tokenIndex);
+        const directive = parent.type === 'XMustache' ? parent.parent : parent;
+        if (directive.type === 'XDirective' && FOR_VARIABLE_DIRECTIVES.includes(directive.key.name)) {
+            this.redefineForVariables(directive.parent.parent);
+        }
+        else {
+            this.resolveInsertedReferences(newExpression);
+        }
+        return newExpression;
+    }
+
+    /**
+     * Generate the source code of the transformed document,
+     * the source map maps the kept source text to the source code of document.
+     */
+    public generate(): GenerateResult {
+        const {code} = getParseSnapshot(this.document)!;
+        const calculator = new LocationCalculator([], getLineBreakOffsets(code));
+        const builder = new SourceMapBuilder();
+        let result = '';
+        let line = 0;
+        let column = 0;
+        let copiedEnd = -1;
+
+        for (const chunk of printChunks(this.document)) {
+            const mapped = chunk.document === this.document;
+            // the source text which follows the previous chunk on the same line is mapped by the previous segment
+            const continued = mapped && chunk.offset === copiedEnd;
+            let offset = chunk.offset;
+            chunk.text.split('\n').forEach((text, i) => {
+                if (i > 0) {
+                    line++;
+                    column = 0;
+                    offset++;
+                }
+                if (text && mapped && !(i === 0 && continued)) {
+                    const location = calculator.getLocation(offset);
+                    builder.addMapping(line, column, location.line - 1, location.column);
+                }
+                else if (text && !mapped) {
+                    builder.addUnmapped(line, column);
+                }
+                column += text.length;
+                offset += text.length;
+            });
+            result += chunk.text;
+            copiedEnd = mapped && !chunk.text.endsWith('\n') ? offset : -1;
+        }
+
+        return {code: result, map: builder.toJSON(this.parserOptions.filePath || '', code)};
+    }
+
+    private visitChildren(parent: ParentNode, visitor: TransformVisitor<Transformer>): void {
+        for (const child of parent.children.slice()) {
+            if (child.parent !== parent || !(parent.children as TransformChildNode[]).includes(child)) {
+                continue;
+            }
+            if (child.type === 'XModule') {
+                continue;
+            }
+            this.visit(child, visitor);
+            if (child.type === 'XElement' && child.parent === parent && (parent.children as TransformChildNode[]).includes(child)) {
+                this.visitAttributes(child, visitor);
+                this.visitChildren(child, visitor);
+            }
+            else if (child.type === 'XMustache') {
+                this.visit(child.value, visitor);
+            }
+        }
+    }
+
+    private visitAttributes(element: XElement, visitor: TransformVisitor<Transformer>): void {
+        const {attributes} = element.startTag;
+        for (const attribute of attributes.slice()) {
+            if (!attributes.includes(attribute)) {
+                continue;
+            }
+            this.visit(attribute, visitor);
+            if (!attributes.includes(attribute)) {
+                continue;
+            }
+            for (const part of attribute.value.slice()) {
+                if (part.type === 'XExpression') {
+                    this.visit(part, visitor);
+                }
+                else if (part.type === 'XMustache') {
+                    this.visit(part, visitor);
+                    this.visit(part.value, visitor);
+                }
+            }
+        }
+    }
+
+    private visit(node: TransformNode, visitor: any): void {
+        const callback = visitor[node.type];
+        if (typeof callback === 'function') {
+            callback(node, this);
+        }
+    }
+
+    private parseSnippet(code: string): XDocument {
+        return new Parser(new Tokenizer(code), this.parserOptions).parse();
+    }
+
+    /**
+     * Parse the expression in the context of the mustache or directive of the given expression.
+     * @param expression The expression to replace.
+     * @param code The source code of new expression.
+     */
+    private parseExpression(expression: XExpression, code: string): XExpression {
+        const parent = expression.parent;
+        const mustache = parent.type === 'XMustache' ? parent : null;
+        const text = mustache && mustache.binding === 'two-way' ? `{=${code}=}` : mustache ? `{{${code}}}` : code;
+        const attribute = mustache ? mustache.parent : parent;
+
+        let newExpression: XExpression | null = null;
+        if (attribute.type === 'XAttribute' || attribute.type === 'XDirective') {
+            const element = this.createElement(`<view ${attribute.key.rawName}=${quoteAttributeValue(text)}/>`);
+            const value = element.startTag.attributes[0].value[0];
+            newExpression = value && value.type === 'XMustache' ? value.value : value as XExpression;
+        }
+        else {
+            const element = this.createElement(`<view>${text}</view>`);
+            const value = element.children[0];
+            newExpression = value && value.type === 'XMustache' ? value.value : null;
+        }
+
+        if (newExpression == null || newExpression.type !== 'XExpression') {
+            throw new Error(`The code of expression is invalid: ${code}`);
+        }
+        return newExpression;
+    }
+
+    private prepareInsert(node: NodeSource): TransformChildNode {
+        const newNode = typeof node === 'string' ? this.createElement(node) : node;
+        // the tokens are taken before the node is removed from the document
+        this.pendingTokens.set(newNode, this.getSourceTokens(newNode));
+        const parent = newNode.parent as ParentNode | null;
+        if (parent != null && (parent.children as TransformChildNode[]).includes(newNode)) {
+            // the source of other documents, e.g. the code snippets, is not removed from this document
+            if (getRootDocument(newNode) === this.document) {
+                this.removeElement(newNode);
+            }
+            else {
+                parent.children.splice((parent.children as TransformChildNode[]).indexOf(newNode), 1);
+            }
+        }
+        this.insertedNodes.add(newNode);
+        return newNode;
+    }
+
+    private insertNodes(parent: ParentNode, index: number, nodes: TransformChildNode[]): void {
+        for (const node of nodes) {
+            node.parent = parent as any;
+        }
+        parent.children.splice(index, 0, ...nodes as any[]);
+        nodes.forEach((node, i) => {
+            const tokens = this.pendingTokens.get(node);
+            if (tokens != null) {
+                this.pendingTokens.delete(node);
+                this.insertTokens(node, tokens, this.getChildTokenIndex(parent, index + i));
+            }
+            this.resolveInsertedReferences(node);
+        });
+    }
+
+    private getSiblings(node: TransformChildNode): TransformChildNode[] {
+        const parent = node.parent as ParentNode | null;
+        if (parent == null || !(parent.children as TransformChildNode[]).includes(node)) {
+            throw new Error(`The ${node.type} node is not in the document.`);
+        }
+        return parent.children;
+    }
+
+    private getAttribute(element: XElement, name: string): XAttribute | XDirective | null {
+        return element.startTag.attributes.find(attribute => attribute.key.rawName === name) || null;
+    }
+
+    private cloneText(text: XText): XText {
+        const clone = Object.assign({}, text, {range: text.range.slice() as [number, number]});
+        this.insertedNodes.add(clone);
+        return clone;
+    }
+
+    /**
+     * Check whether the node is inserted by this transformer or created by builders,
+     * its locations are not in the source code of document.
+     * @param node The node to check.
+     */
+    private isInserted(node: any): boolean {
+        for (let current = node; current != null; current = current.parent) {
+            if (this.insertedNodes.has(current) || isSyntheticNode(current)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Remove the tokens, comments and errors in the removed source.
+     * @param start The start offset of the removed source.
+     * @param end The end offset of the removed source.
+     */
+    private removeSource(start: number, end: number): void {
+        const {tokens, comments, errors} = this.document;
+        const isRemoved = (range: [number, number]) => range[0] >= start && range[1] <= end;
+        // the tokens of inserted nodes are removed with the nodes
+        tokens.splice(0, tokens.length, ...tokens.filter(
+            token => !isRemoved(token.range) || this.tokenCopies.has(token)
+        ));
+        comments.splice(0, comments.length, ...comments.filter(comment => !isRemoved(comment.range)));
+        errors.splice(0, errors.length, ...errors.filter(error => error.index < start || error.index >= end));
+    }
+
+    /**
+     * Get the tokens of the node in its document, or the tokens of the inserted node.
+     * @param node The node to get.
+     */
+    private getSourceTokens(node: HasLocation): InsertedToken[] {
+        if (this.isInserted(node)) {
+            return this.getInsertedTokens(node);
+        }
+        const document = getRootDocument(node);
+        if (document == null) {
+            return [];
+        }
+        return document.tokens
+            .filter(token => !this.tokenCopies.has(token)
+                && token.range[0] >= node.range[0]
+                && token.range[1] <= node.range[1])
+            .map(token => ({token, range: token.range}));
+    }
+
+    /**
+     * Get the tokens of the inserted node, they are the tokens of the inserted ancestor in the range of the node.
+     * @param node The inserted node.
+     */
+    private getInsertedTokens(node: HasLocation): InsertedToken[] {
+        for (let current: any = node; current != null; current = current.parent) {
+            const tokens = this.insertedTokens.get(current);
+            if (tokens != null) {
+                return tokens.filter(({range}) => range[0] >= node.range[0] && range[1] <= node.range[1]);
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Get the index of document tokens at the offset of the node.
+     * @param node The node, its tokens and the offset are in the source of the node.
+     * @param offset The offset.
+     * @returns The index of the first token after the offset, or `-1` if the node has no tokens.
+     */
+    private getTokenIndex(node: HasLocation, offset: number): number {
+        const {tokens} = this.document;
+        if (this.isInserted(node)) {
+            const inserted = this.getInsertedTokens(node);
+            if (!inserted.length) {
+                return -1;
+            }
+            const next = inserted.find(({range}) => range[0] >= offset);
+            return next ? tokens.indexOf(next.token) : tokens.indexOf(inserted[inserted.length - 1].token) + 1;
+        }
+        if (getRootDocument(node) !== this.document) {
+            return -1;
+        }
+        const index = tokens.findIndex(token => !this.tokenCopies.has(token) && token.range[0] >= offset);
+        return index === -1 ? tokens.length : index;
+    }
+
+    /**
+     * Get the document token after the node, the tokens of the node are inserted before it after replacing.
+     * @param node The node.
+     * @returns The token, `undefined` if the node is at the end, or `null` if the node has no tokens.
+     */
+    private getNextToken(node: HasLocation): Token | null | undefined {
+        const index = this.getTokenIndex(node, node.range[1]);
+        return index === -1 ? null : this.document.tokens[index];
+    }
+
+    /**
+     * Get the index of the token in the document tokens.
+     * @param token The token returned by `getNextToken()`.
+     * @returns The index, the length of document tokens if it's `undefined`, or `-1` if it's `null`.
+     */
+    private indexOfToken(token: Token | null | undefined): number {
+        if (token === null) {
+            return -1;
+        }
+        return token === undefined ? this.document.tokens.length : this.document.tokens.indexOf(token);
+    }
+
+    /**
+     * Get the index of the last document token of the node.
+     * @param node The node.
+     * @returns The index, or `-1` if the node has no tokens.
+     */
+    private getLastTokenIndex(node: HasLocation): number {
+        const {tokens} = this.document;
+        if (this.isInserted(node)) {
+            const inserted = this.getInsertedTokens(node);
+            return inserted.length ? tokens.indexOf(inserted[inserted.length - 1].token) : -1;
+        }
+        if (getRootDocument(node) !== this.document) {
+            return -1;
+        }
+        let last = -1;
+        tokens.forEach((token, i) => {
+            if (!this.tokenCopies.has(token) && token.range[0] >= node.range[0] && token.range[0] < node.range[1]) {
+                last = i;
+            }
+        });
+        return last;
+    }
+
+    /**
+     * Get the index of document tokens to insert the tokens of the child,
+     * it is the first token of the next sibling, or the end tag of the parent.
+     * @param parent The parent element or document.
+     * @param index The index of the child.
+     * @returns The index, or `-1` if the parent has no tokens.
+     */
+    private getChildTokenIndex(parent: ParentNode, index: number): number {
+        for (const sibling of parent.children.slice(index + 1) as TransformChildNode[]) {
+            // the inserted whitespaces have no tokens
+            if (!this.isInserted(sibling) || this.getInsertedTokens(sibling).length) {
+                return this.getTokenIndex(sibling, sibling.range[0]);
+            }
+        }
+        if (parent.type === 'XDocument') {
+            return parent === this.document ? this.document.tokens.length : -1;
+        }
+        return this.getTokenIndex(parent, parent.endTag ? parent.endTag.range[0] : parent.range[1]);
+    }
+
+    /**
+     * Insert the copies of the tokens into the document tokens, they are located at the next token.
+     * @param node The inserted node.
+     * @param tokens The tokens of the node.
+     * @param index The index of document tokens, the tokens are not inserted if it's `-1`.
+     */
+    private insertTokens(node: object, tokens: InsertedToken[], index: number): void {
+        if (index === -1 || !tokens.length) {
+            return;
+        }
+        const documentTokens = this.document.tokens;
+        const next = documentTokens[index];
+        const offset = next ? next.range[0] : this.document.range[1];
+        const position = next ? next.loc.start : this.document.loc.end;
+        const copies = tokens.map(({token, range}) => {
+            const copy: Token = {
+                ...token,
+                range: [offset, offset],
+                loc: {start: {...position}, end: {...position}}
+            };
+            this.tokenCopies.add(copy);
+            return {token: copy, range};
+        });
+        documentTokens.splice(index, 0, ...copies.map(({token}) => token));
+        this.insertedTokens.set(node, copies);
+    }
+
+    /**
+     * Remove the tokens of the inserted node and the inserted descendants from the document tokens.
+     * @param node The removed node.
+     */
+    private removeInsertedTokens(node: HasLocation): void {
+        const removed = new Set(this.getInsertedTokens(node).map(({token}) => token));
+        const {insertedTokens} = this;
+        traverseNodes(node as any, {
+            enterNode(child) {
+                const tokens = insertedTokens.get(child);
+                if (tokens != null) {
+                    tokens.forEach(({token}) => removed.add(token));
+                }
+            },
+            leaveNode() {
+                // Do nothing.
+            },
+        });
+        if (removed.size) {
+            const {tokens} = this.document;
+            tokens.splice(0, tokens.length, ...tokens.filter(token => !removed.has(token)));
+        }
+    }
+
+    /**
+     * Resolve the references of the inserted node by the variables of its ancestors,
+     * the references to the variables in the inserted node are kept.
+     * @param node The inserted node.
+     */
+    private resolveInsertedReferences(node: object): void {
+        if (getRootDocument(node) !== this.document) {
+            return;
+        }
+        traverseNodes(node as any, {
+            enterNode(child) {
+                if (child.type !== 'XExpression') {
+                    return;
+                }
+                const expression = child as XExpression;
+                const references = expression.references.filter(
+                    reference => reference.variable == null || !reference.variable.references.includes(reference)
+                );
+                references.forEach(reference => {
+                    reference.variable = null;
+                });
+                resolveReferences(expression, references);
+            },
+            leaveNode() {
+                // Do nothing.
+            },
+        });
+    }
+
+    /**
+     * Define the loop variables of element again after its `s-for` related directive is rewritten,
+     * the references of the element and its descendants are resolved by the new variables.
+     * @param element The element which has the `s-for` directive.
+     */
+    private redefineForVariables(element: XElement): void {
+        this.removeReferences(element);
+        collectReferences(element).forEach(reference => {
+            reference.variable = null;
+        });
+        element.variables.splice(0);
+
+        const forExpression = getForExpression(element);
+        if (forExpression != null) {
+            // the list is resolved in the parent scope, and the trackBy is resolved by the loop variables
+            resolveForReferences(forExpression);
+        }
+        traverseNodes(element as any, {
+            enterNode(child) {
+                if (child.type === 'XExpression' && child !== forExpression) {
+                    resolveReferences(child as XExpression);
+                }
+            },
+            leaveNode() {
+                // Do nothing.
+            },
+        });
+    }
+
+    /**
+     * Remove the references of the expressions in the node from their variables.
+     * @param node The removed node.
+     */
+    private removeReferences(node: object): void {
+        for (const reference of collectReferences(node)) {
+            const variable = reference.variable;
+            if (variable != null && variable.references.includes(reference)) {
+                variable.references.splice(variable.references.indexOf(reference), 1);
+            }
+        }
+    }
+}
@@ -39,6 +39,10 @@ export const QUOTATION_MARK = 0x22
  * #
  */
 export const NUMBER_SIGN = 0x23
+/**
+ * &amp;
+ */
+export const AMPERSAND = 0x26
 
 /**
  * single quote '
@@ -52,6 +56,14 @@ export const HYPHEN_MINUS = 0x2D
  * /
  */
 export const SOLIDUS = 0x2F
+/**
+ * 0
+ */
+export const DIGIT_ZERO = 0x30
+/**
+ * 9
+ */
+export const DIGIT_NINE = 0x39
 /**
  * &lt;
  */
@@ -94,6 +106,25 @@ export const LEFT_CURLY_BRACKET = 0x7B
 export const RIGHT_CURLY_BRACKET = 0x7D
 export const NULL_REPLACEMENT = 0xFFFD
 
+/**
+ * The named character references which swan decodes.
+ */
+export const NAMED_CHARACTER_REFERENCES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\'',
+    nbsp: '\u00a0',
+    ensp: '\u2002',
+    emsp: '\u2003',
+    thinsp: '\u2009',
+    zwnj: '\u200c',
+    zwj: '\u200d',
+    copy: '\u00a9',
+    reg: '\u00ae'
+}
+
 /**
  * Check whether the code point is a whitespace.
  * @param cp The code point to check.
@@ -130,6 +161,15 @@ export function isLetter(cp: number): boolean {
     return isLowerLetter(cp) || isUpperLetter(cp)
 }
 
+/**
+ * Check whether the code point is a digit character.
+ * @param cp The code point to check.
+ * @returns `true` if the code point is a digit character.
+ */
+export function isDigit(cp: number): boolean {
+    return cp >= DIGIT_ZERO && cp <= DIGIT_NINE
+}
+
 /**
  * Check whether the code point is a control character.
  * @param cp The code point to check.
@@ -0,0 +1,91 @@
+/**
+ * @file 自定义组件
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import * as path from 'path';
+import {XComponent, XDocument, XElement} from '../types/ast';
+import {ParserOptions} from '../types/parser';
+import {debug} from './common';
+import {getComponentSchema} from './components';
+import {walkElements} from './swan-lang';
+
+/**
+ * Load the `usingComponents` from the sibling `.json` file of the template.
+ * @param parserOptions The parser options.
+ * @returns The `usingComponents`, or `null` if the json config can not be loaded.
+ */
+function loadUsingComponents(parserOptions: ParserOptions): Record<string, string> | null {
+    if (!parserOptions.readFile || !parserOptions.filePath) {
+        return null;
+    }
+    const {filePath} = parserOptions;
+    const configPath = filePath.slice(0, filePath.length - path.extname(filePath).length) + '.json';
+    const code = parserOptions.readFile(configPath);
+    if (code == null) {
+        return null;
+    }
+
+    try {
+        const config = JSON.parse(code);
+        return config && typeof config.usingComponents === 'object' && config.usingComponents || {};
+    }
+    catch (e) {
+        debug('[component] parse json config %s error: %s', configPath, e);
+        return null;
+    }
+}
+
+/**
+ * Resolve the path of custom component.
+ * @param componentPath The path in `usingComponents`.
+ * @param parserOptions The parser options.
+ */
+function resolveComponentPath(componentPath: string, parserOptions: ParserOptions): string {
+    // absolute path is resolved from the project root, and plugin path like `dynamicLib://` is kept as is
+    if (!componentPath.startsWith('.') || !parserOptions.filePath) {
+        return componentPath;
+    }
+    return path.resolve(path.dirname(parserOptions.filePath), componentPath);
+}
+
+/**
+ * Define the not enumerable property.
+ * @param node The node to define.
+ * @param key The property name.
+ * @param value The property value.
+ */
+function defineProperty(node: XDocument | XElement, key: string, value: unknown): void {
+    Object.defineProperty(node, key, {
+        value,
+        enumerable: false,
+        configurable: true,
+        writable: true
+    });
+}
+
+/**
+ * Tag each element as built-in, custom or unknown component.
+ * @param document The document to analyze.
+ * @param parserOptions The parser options.
+ */
+export function analyzeComponents(document: XDocument, parserOptions: ParserOptions): void {
+    const usingComponents = parserOptions.usingComponents || loadUsingComponents(parserOptions);
+    defineProperty(document, 'usingComponents', usingComponents);
+
+    walkElements(document, element => {
+        const component: XComponent = {
+            kind: 'unknown',
+            name: element.name,
+            path: null
+        };
+        if (getComponentSchema(element.name)) {
+            component.kind = 'builtin';
+        }
+        else if (usingComponents && Object.prototype.hasOwnProperty.call(usingComponents, element.name)) {
+            component.kind = 'custom';
+            component.path = resolveComponentPath(usingComponents[element.name], parserOptions);
+        }
+        defineProperty(element, 'component', component);
+    });
+}
@@ -45,6 +45,24 @@ const DEFAULT_OPTIONS = Object.freeze(
         'attribute-value-invalid-unquoted': true,
         'unexpected-line-break': true,
         'missing-expression-end-tag': true,
+        'x-invalid-two-way-binding': true,
+        'x-orphan-conditional-branch': true,
+        'x-duplicate-conditional-else': true,
+        'x-invalid-conditional-sibling': true,
+        'x-duplicate-template-name': true,
+        'x-undefined-template': true,
+        'x-undefined-module-member': true,
+        'x-sjs-unsupported-class': true,
+        'x-sjs-unsupported-async': true,
+        'x-sjs-unsupported-generator': true,
+        'x-sjs-unsupported-block-scoped': true,
+        'x-sjs-browser-global': true,
+        'x-unknown-directive': true,
+        'x-invalid-directive-value': true,
+        'x-duplicate-class': true,
+        'x-undefined-data': true,
+        'x-undefined-data-member': true,
+        'x-undefined-event-handler': true,
     })
 );
 
@@ -72,3 +72,132 @@ describe('parse with no expression', () => {
         assert.ok(ast.children[0].children[0].value, 'exports.a = 1;');
     });
 });
+
+
+describe('parse for variables', () => {
+    it('define variables of for expression', () => {
+        const ast = parser.parse('<view s-for="item, idx in item.list trackBy item.id">{{item.a}}{{idx}}</view>', {
+            filePath: 'page.swan',
+            parseExpression: true,
+        });
+        const element = ast.children[0];
+        assert.deepStrictEqual(element.variables.map(v => v.id.name), ['item', 'idx']);
+        assert.strictEqual(element.variables[0].kind, 'for');
+        assert.strictEqual(element.variables[0].references.length, 2);
+        assert.strictEqual(element.variables[1].references.length, 1);
+        assert.strictEqual(element.startTag.attributes[0].value[0].references[0].id.name, 'item');
+        assert.strictEqual(element.startTag.attributes[0].value[0].references[0].variable, null);
+    });
+
+    it('define variables of s-for-item and s-for-index', () => {
+        const ast = parser.parse('<view s-if="x" s-for="list" s-for-item="x">{{x}}{{index}}</view>', {
+            filePath: 'page.swan',
+            parseExpression: true,
+        });
+        const element = ast.children[0];
+        assert.deepStrictEqual(element.variables.map(v => v.id.name), ['x', 'index']);
+        assert.strictEqual(element.variables[0].references.length, 2);
+        assert.strictEqual(element.variables[1].references.length, 1);
+        assert.strictEqual(element.startTag.attributes[2].value[0].references.length, 0);
+    });
+});
+
+
+describe('parse directive key', () => {
+    it('parse event directive with modifiers', () => {
+        const source = '<view bind:touchmove.stop="onMove" mut-bind:tap="onTap" s-if="cond"></view>';
+        const ast = parser.parse(source, {
+            filePath: 'page.swan',
+            parseExpression: true,
+        });
+        const [move, tap, cond] = ast.children[0].startTag.attributes.map(attr => attr.key);
+        assert.strictEqual(move.type, 'XDirectiveKey');
+        assert.strictEqual(move.prefix, 'bind');
+        assert.strictEqual(move.argument, 'touchmove');
+        assert.deepStrictEqual(move.modifiers, ['stop']);
+        assert.strictEqual(source.slice(...move.parts.prefix.range), 'bind:');
+        assert.strictEqual(source.slice(...move.parts.argument.range), 'touchmove');
+        assert.strictEqual(source.slice(...move.parts.modifiers[0].range), 'stop');
+
+        assert.strictEqual(tap.type, 'XDirectiveKey');
+        assert.strictEqual(tap.prefix, 'mut-bind');
+        assert.strictEqual(tap.argument, 'tap');
+
+        assert.strictEqual(cond.argument, null);
+        assert.deepStrictEqual(cond.modifiers, []);
+    });
+
+    it('parse capture directives with or without colon', () => {
+        const source = '<view capture-bindtap="onTap" capture-catch:touchstart="onStart"></view>';
+        const ast = parser.parse(source, {
+            filePath: 'page.swan',
+            parseExpression: true,
+        });
+        const [tap, start] = ast.children[0].startTag.attributes.map(attr => attr.key);
+        assert.strictEqual(ast.errors.length, 0);
+        assert.strictEqual(tap.type, 'XDirectiveKey');
+        assert.strictEqual(tap.prefix, 'capture-bind');
+        assert.strictEqual(tap.argument, 'tap');
+        assert.strictEqual(start.prefix, 'capture-catch');
+        assert.strictEqual(start.argument, 'touchstart');
+    });
+});
+
+describe('validate control directive', () => {
+    function parseErrors(source) {
+        return parser.parse(source, {
+            filePath: 'page.swan',
+            parseExpression: true,
+        }).errors;
+    }
+
+    it('suggest nearest directive', () => {
+        const [error] = parseErrors('<view s-iff="{{cond}}"></view>');
+        assert.strictEqual(error.code, 'x-unknown-directive');
+        assert.strictEqual(error.message, 'Unknown directive \'s-iff\', did you mean \'s-if\'?');
+        assert.strictEqual(error.index, 6);
+
+        const [unknown] = parseErrors('<view s-animation="fade"></view>');
+        assert.strictEqual(unknown.message, 'Unknown directive \'s-animation\'.');
+    });
+
+    it('report invalid value shape', () => {
+        const errors = parseErrors([
+            '<view s-if="{{a}}"></view><view s-else="{{b}}"></view>',
+            '<view s-for="{{list}}" s-for-item="{{item}}" s-key="id"></view>',
+            '<view s-elif></view>',
+        ].join(''));
+        assert.deepStrictEqual(errors.map(e => [e.code, e.index]), [
+            ['x-invalid-directive-value', 40],
+            ['x-invalid-directive-value', 89],
+            ['x-orphan-conditional-branch', 123],
+            ['x-invalid-directive-value', 123],
+        ]);
+    });
+
+    it('accept valid directives', () => {
+        const errors = parseErrors([
+            '<view s-if="a"></view><view s-elif="{{b}}"></view><view s-else></view>',
+            '<view s-for="list" s-for-item="item" s-for-index="i" s-key="id"></view>',
+        ].join(''));
+        assert.strictEqual(errors.length, 0);
+    });
+
+    it('accept legacy for-items alias', () => {
+        assert.deepStrictEqual(parseErrors('<view s-for-items="{{list}}"></view>'), []);
+        const document = parser.parse('<view wx:for-items="{{list}}"></view>', {dialect: 'wxml'});
+        assert.deepStrictEqual(document.errors, []);
+    });
+
+    it('define loop variables of for-items alias', () => {
+        const ast = parser.parse('<view s-for-items="{{list}}" s-for-item="x">{{x.a}}{{index}}</view>', {
+            filePath: 'page.swan',
+            parseExpression: true,
+        });
+        const element = ast.children[0];
+        assert.strictEqual(element.startTag.attributes[0].value[0].value.expression.type, 'SwanForExpression');
+        assert.deepStrictEqual(element.variables.map(v => v.id.name), ['x', 'index']);
+        assert.strictEqual(element.variables[0].references.length, 1);
+        assert.strictEqual(element.variables[1].references.length, 1);
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * @file builders spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+const {builders, isSyntheticNode} = parser;
+
+describe('builders', () => {
+
+    it('print the synthetic element', () => {
+        const element = builders.element('view', {
+            attrs: {'class': 'list {{cls}}', 's-if': '{{show}}', 'bind:tap': 'onTap', 'hidden': true},
+            children: [
+                'a & <b>',
+                builders.mustache('item.name + "!"'),
+                builders.element('image', {
+                    attrs: [builders.attribute('src', [builders.literal('/a/'), builders.mustache('url')])]
+                }),
+                builders.element('input', {attrs: [builders.directive('model')]})
+            ]
+        });
+
+        assert.strictEqual(
+            parser.print(element),
+            '<view class="list {{cls}}" s-if="{{show}}" bind:tap="onTap" hidden>'
+                + 'a &amp; &lt;b>{{item.name + "!"}}<image src="/a/{{url}}"/><input s-model/></view>'
+        );
+        assert.strictEqual(
+            parser.print(builders.element('block', {attrs: [builders.directive('if', '{{a == "x"}}')]})),
+            '<block s-if=\'{{a == "x"}}\'/>'
+        );
+        assert.strictEqual(parser.print(builders.mustache('value', 'two-way')), '{=value=}');
+    });
+
+    it('link the parents and use the synthetic location', () => {
+        const text = builders.element('text', {children: [builders.mustache('item')]});
+        const element = builders.element('view', {attrs: {'s-for': 'item in list'}, children: [text]});
+        const [directive] = element.startTag.attributes;
+
+        assert(isSyntheticNode(element));
+        assert.deepStrictEqual(element.range, [-1, -1]);
+        assert.strictEqual(directive.parent, element.startTag);
+        assert.strictEqual(directive.key.parent, directive);
+        assert.strictEqual(directive.value[0].type, 'XExpression');
+        assert.strictEqual(directive.value[0].expression.type, 'SwanForExpression');
+        assert.strictEqual(text.parent, element);
+        assert.strictEqual(text.children[0].parent, text);
+        assert.strictEqual(text.children[0].value.parent, text.children[0]);
+        assert.strictEqual(element.endTag.parent, element);
+    });
+
+    it('define the loop variables of elements', () => {
+        const name = builders.mustache('item.name + index');
+        const text = builders.element('text', {children: [name, builders.mustache('title')]});
+        const element = builders.element('view', {
+            attrs: {'s-for': 'item in item.children trackBy item.id'},
+            children: [text]
+        });
+        const [item, index] = element.variables;
+
+        assert.deepStrictEqual(element.variables.map(variable => variable.id.name), ['item', 'index']);
+        assert.deepStrictEqual(item.references.map(reference => reference.id.parent.property.name), ['id', 'name']);
+        assert.strictEqual(index.references[0].id.name, 'index');
+        assert.strictEqual(text.children[1].value.references[0].variable, null);
+        assert.strictEqual(element.startTag.attributes[0].value[0].references[0].variable, null);
+
+        const named = builders.element('view', {
+            attrs: [builders.directive('for', '{{list}}'), builders.directive('for-item', 'row')],
+            children: [builders.mustache('row')]
+        });
+        assert.strictEqual(named.variables[0].id.name, 'row');
+        assert.strictEqual(named.children[0].value.references[0].variable, named.variables[0]);
+    });
+
+    it('create the directive keys', () => {
+        const event = builders.directive('bind:tap.stop', 'onTap');
+        assert.strictEqual(event.key.prefix, 'bind');
+        assert.strictEqual(event.key.argument, 'tap');
+        assert.deepStrictEqual(event.key.modifiers, ['stop']);
+
+        const control = builders.directive('if', builders.expression('show'));
+        assert.strictEqual(control.key.rawName, 's-if');
+        assert.strictEqual(control.key.prefix, 's-');
+        assert.strictEqual(control.key.argument, null);
+        assert.strictEqual(control.key.name, 'if');
+
+        assert.strictEqual(parser.print(control), 's-if="{{show}}"');
+        assert.strictEqual(control.value[0].parent, control);
+
+        const wxml = builders.directive('wx:if', '{{show}}');
+        assert.strictEqual(wxml.key.prefix, 'wx:');
+        assert.strictEqual(parser.print(wxml), 'wx:if="{{show}}"');
+        assert.strictEqual(parser.print(builders.directive('for', 'item in list', 'wxml')), 'wx:for="item in list"');
+        assert.strictEqual(parser.print(builders.directive('s-else')), 's-else');
+    });
+
+    it('insert the synthetic nodes by transformer', () => {
+        const document = parser.parse('<view>\n    <text>a</text>\n</view>\n', {});
+        const transformer = parser.transform(document, {});
+        const element = builders.element('button', {attrs: {type: 'primary'}, children: ['ok']});
+        transformer.insertAfter(document.children[0].children[1], element);
+
+        const {code, map} = transformer.generate();
+        assert.strictEqual(code, '<view>\n    <text>a</text>\n    <button type="primary">ok</button>\n</view>\n');
+        assert.strictEqual(map.mappings.split(';')[2], '');
+
+        transformer.removeElement(element);
+        assert.strictEqual(transformer.generate().code, '<view>\n    <text>a</text>\n</view>\n');
+    });
+
+    it('throw the errors of invalid code', () => {
+        assert.throws(() => builders.mustache('a +'), /The code of expression is invalid: a \+/);
+        assert.throws(() => builders.attribute('title', '{{a +}}'), /The code of value is invalid/);
+        assert.throws(() => builders.directive('a b'), /The name of directive is invalid: a b/);
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * @file character reference spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+function parse(code) {
+    return parser.parse(code, {parseExpression: true});
+}
+
+describe('character reference', () => {
+    it('decode text and attribute values', () => {
+        const code = '<view title="Tom &amp; Jerry">&lt;{{a}}&gt; &#x4e2d;&#25991;&nbsp;&copy;</view>';
+        const ast = parse(code);
+        const [view] = ast.children;
+
+        assert.strictEqual(view.startTag.attributes[0].value[0].value, 'Tom & Jerry');
+        assert.deepStrictEqual(
+            view.children.map(node => node.type === 'XText' ? node.value : node.type),
+            ['<', 'XMustache', '> 中文\u00a0©']
+        );
+        assert.strictEqual(code.slice(...view.children[2].range), '&gt; &#x4e2d;&#25991;&nbsp;&copy;');
+        assert.strictEqual(ast.errors.length, 0);
+    });
+
+    it('keep the locations of expressions', () => {
+        const code = '<view s-if="a &amp;&amp;\r\n b">{{a && b}}</view>';
+        const ast = parse(code);
+        const [view] = ast.children;
+        const {expression} = view.startTag.attributes[0].value[0];
+
+        assert.strictEqual(expression.type, 'LogicalExpression');
+        assert.strictEqual(code.slice(...expression.right.range), 'b');
+        assert.deepStrictEqual(expression.right.loc.start, {line: 2, column: 1});
+        assert.strictEqual(view.children[0].value.expression.operator, '&&');
+        assert.strictEqual(ast.errors.length, 0);
+    });
+
+    it('report malformed references', () => {
+        const code = '<view title="&lt &foo; &#;">&#0; &#xD800; &#x110000; &#1 &#x80; a && b &unknown</view>';
+        const ast = parse(code);
+
+        assert.deepStrictEqual(ast.errors.map(error => [error.code, code.slice(error.index).split(' ')[0]]), [
+            ['missing-semicolon-after-character-reference', '&lt'],
+            ['unknown-named-character-reference', '&foo;'],
+            ['absence-of-digits-in-numeric-character-reference', '&#;">&#0;'],
+            ['null-character-reference', '&#0;'],
+            ['surrogate-character-reference', '&#xD800;'],
+            ['character-reference-outside-unicode-range', '&#x110000;'],
+            ['missing-semicolon-after-character-reference', '&#1'],
+            ['control-character-reference', '&#x80;']
+        ]);
+        assert.strictEqual(ast.children[0].startTag.attributes[0].value[0].value, '&lt &foo; &#;');
+        assert.strictEqual(ast.children[0].children[0].value, '\ufffd \ufffd \ufffd &#1 \u0080 a && b &unknown');
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * @file class list spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+function parse(code) {
+    return parser.parse(code, {
+        filePath: 'page.swan',
+        parseExpression: true
+    });
+}
+
+describe('class list', () => {
+    it('split static and dynamic classes', () => {
+        const code = '<view class="a {{active ? \'on x\' : \'\'}} b-{{type}}\n c"></view>';
+        const ast = parse(code);
+        const [attr] = ast.children[0].startTag.attributes;
+        const classList = attr.classList;
+
+        assert.deepStrictEqual(
+            classList.map(token => [token.kind, token.text]),
+            [['static', 'a'], ['dynamic', '{{active ? \'on x\' : \'\'}}'], ['dynamic', 'b-{{type}}'], ['static', 'c']]
+        );
+        assert.strictEqual(code.slice(...classList[2].range), 'b-{{type}}');
+        assert.deepStrictEqual(classList[3].loc.start, {line: 2, column: 1});
+        assert.strictEqual(classList[1].expressions[0], attr.value[1]);
+        assert.strictEqual(classList[2].expressions[0].value.expression.name, 'type');
+
+        const visited = [];
+        parser.traverseNodes(attr, {
+            visitorKeys: {},
+            enterNode(node) {
+                visited.push(node.type);
+            },
+            leaveNode() {}
+        });
+        assert.ok(visited.includes('XMustache'), 'visited.XMustache');
+        assert.ok(!visited.includes('static') && !visited.includes('dynamic'), 'visited.classList');
+        assert.strictEqual(ast.errors.length, 0);
+    });
+
+    it('report duplicate static classes', () => {
+        const ast = parse('<view class="a b-{{type}} b- a"></view><view class=""></view>');
+        const [attr] = ast.children[0].startTag.attributes;
+
+        assert.deepStrictEqual(ast.errors.map(error => [error.code, error.index]), [['x-duplicate-class', 29]]);
+        assert.strictEqual(attr.classList.length, 4);
+        assert.deepStrictEqual(ast.children[1].startTag.attributes[0].classList, []);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @file codemod spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const assert = require('assert');
+const {execFileSync} = require('child_process');
+const {runCodemod} = require('../../');
+
+const BIN = path.join(__dirname, '../../bin/swan-codemod.js');
+
+const FILES = {
+    'pages/index/index.swan': '<view>\n    <button type="primary">ok</button>\n</view>\n',
+    'pages/list/list.swan': '<view s-for="item in list">\n    <text>{{item}}</text>\n</view>\n',
+    'components/card.swan': '<button>card</button>\n',
+    'components/broken.swan': '<view><button></veiw>\n',
+    'node_modules/lib/index.swan': '<button>lib</button>\n'
+};
+
+const TRANSFORM = [
+    'module.exports = function (file, {transformer}) {',
+    '    transformer.transform({',
+    '        XElement(node) {',
+    '            if (node.name === \'button\') {',
+    '                transformer.renameElement(node, \'custom-button\');',
+    '            }',
+    '        }',
+    '    });',
+    '};',
+    ''
+].join('\n');
+
+describe('codemod', () => {
+    let root;
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'swan-codemod-'));
+        for (const file of Object.keys(FILES)) {
+            fs.mkdirSync(path.dirname(path.join(root, file)), {recursive: true});
+            fs.writeFileSync(path.join(root, file), FILES[file]);
+        }
+        fs.writeFileSync(path.join(root, 'transform.js'), TRANSFORM);
+    });
+
+    afterEach(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    const readFile = file => fs.readFileSync(path.join(root, file), 'utf8');
+
+    it('transform and write the matched files', () => {
+        const summary = runCodemod({
+            cwd: root,
+            patterns: ['pages/**/*.swan', 'components'],
+            transform: './transform.js',
+            parserOptions: {noOpenTag: true}
+        });
+
+        assert.deepStrictEqual(
+            summary.files.map(file => [path.relative(root, file.filePath), file.status]),
+            [
+                ['components/broken.swan', 'failed'],
+                ['components/card.swan', 'changed'],
+                ['pages/index/index.swan', 'changed'],
+                ['pages/list/list.swan', 'unchanged']
+            ]
+        );
+        assert.deepStrictEqual([summary.changed, summary.unchanged, summary.failed], [2, 1, 1]);
+        assert.strictEqual(readFile('components/card.swan'), '<custom-button>card</custom-button>\n');
+        assert.strictEqual(readFile('node_modules/lib/index.swan'), FILES['node_modules/lib/index.swan']);
+        assert.strictEqual(summary.files[2].diff, [
+            '--- pages/index/index.swan',
+            '+++ pages/index/index.swan',
+            '@@ -1,3 +1,3 @@',
+            ' <view>',
+            '-    <button type="primary">ok</button>',
+            '+    <custom-button type="primary">ok</custom-button>',
+            ' </view>',
+            ''
+        ].join('\n'));
+    });
+
+    it('pass the token store and use the returned code', () => {
+        const summary = runCodemod({
+            cwd: root,
+            patterns: ['pages/list/*.swan'],
+            dry: true,
+            transform({code, document, tokenStore}, {print}) {
+                const text = document.children[0].children[1];
+                assert.strictEqual(tokenStore.getFirstToken(text).value, 'text');
+                return code.replace(print(text), '<text>{{item.name}}</text>');
+            }
+        });
+
+        assert.strictEqual(summary.changed, 1);
+        assert.strictEqual(summary.files[0].code, '<view s-for="item in list">\n    <text>{{item.name}}</text>\n</view>\n');
+        assert.strictEqual(readFile('pages/list/list.swan'), FILES['pages/list/list.swan']);
+    });
+
+    it('find the template files of other dialects', () => {
+        fs.writeFileSync(path.join(root, 'components/tab.wxml'), '<button wx:if="{{a}}">tab</button>\n');
+        fs.writeFileSync(path.join(root, 'components/tab.wxss'), '');
+        const summary = runCodemod({
+            cwd: root,
+            patterns: ['components', '**/*.wxml'],
+            transform: './transform.js'
+        });
+
+        assert.deepStrictEqual(
+            summary.files.map(file => path.relative(root, file.filePath)),
+            ['components/broken.swan', 'components/card.swan', 'components/tab.wxml']
+        );
+        assert.strictEqual(readFile('components/tab.wxml'), '<custom-button wx:if="{{a}}">tab</custom-button>\n');
+    });
+
+    it('print the diffs by command in dry run', () => {
+        let output = '';
+        try {
+            execFileSync(process.execPath, [BIN, '-t', 'transform.js', '--dry', '**/*.swan'], {
+                cwd: root,
+                encoding: 'utf8',
+                stdio: 'pipe'
+            });
+        }
+        catch (e) {
+            assert.strictEqual(e.status, 1);
+            output = e.stdout;
+            assert(/FAIL components\/broken\.swan/.test(e.stderr));
+        }
+
+        assert(output.includes('+<custom-button>card</custom-button>'));
+        assert(output.endsWith('2 changed, 1 unchanged, 1 failed.\n'));
+        assert.strictEqual(readFile('components/card.swan'), FILES['components/card.swan']);
+    });
+});
@@ -0,0 +1,45 @@
+/**
+ * @file conditional chain spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+function parse(code) {
+    return parser.parse(code, {
+        filePath: 'page.swan',
+        parseExpression: true,
+    });
+}
+
+describe('conditional chain', () => {
+    it('group sibling branches', () => {
+        const ast = parse('<view s-if="a"></view>\n<view s-elif="b"></view>\n<view s-else></view><view></view>');
+        const [ifElement, elifElement, elseElement, plainElement] = ast.children.filter(n => n.type === 'XElement');
+        assert.strictEqual(ast.errors.length, 0);
+        assert.strictEqual(ifElement.conditional.chain, elseElement.conditional.chain);
+        assert.deepStrictEqual(ifElement.conditional.chain, [ifElement, elifElement, elseElement]);
+        assert.strictEqual(elifElement.conditional.index, 1);
+        assert.strictEqual(elifElement.conditional.kind, 'elif');
+        assert.strictEqual(elseElement.conditional.directive.key.name, 'else');
+        assert.strictEqual(plainElement.conditional, undefined);
+        assert.ok(!Object.keys(ifElement).includes('conditional'));
+    });
+
+    it('report orphan branch', () => {
+        const ast = parse('<view></view><view s-else></view>');
+        assert.deepStrictEqual(ast.errors.map(e => e.code), ['x-orphan-conditional-branch']);
+    });
+
+    it('report duplicate else', () => {
+        const ast = parse('<view s-if="a"></view><view s-else></view><view s-else></view>');
+        assert.deepStrictEqual(ast.errors.map(e => e.code), ['x-duplicate-conditional-else']);
+    });
+
+    it('report text between branches', () => {
+        const ast = parse('<view s-if="a"></view>{{b}}<view s-else></view>');
+        assert.deepStrictEqual(ast.errors.map(e => e.code), ['x-invalid-conditional-sibling']);
+        assert.strictEqual(ast.children[2].conditional.index, 1);
+    });
+});
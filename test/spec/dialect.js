@@ -0,0 +1,87 @@
+/**
+ * @file dialect spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+const WXML = [
+    '<wxs module="m">module.exports = {a: 1};</wxs>',
+    '<view wx:for="{{list}}" wx:key="id" bind:tap="onTap">',
+    '    <text wx:if="{{item.ok}}">{{m.a}} {{item.name}}</text>',
+    '    <text wx:else s-if="{{index}}">{{index}}</text>',
+    '</view>',
+    ''
+].join('\n');
+
+describe('dialect', () => {
+
+    it('select the dialect by file path or option', () => {
+        assert.strictEqual(parser.parse('<view/>', {filePath: '/project/page.wxml'}).xmlType, 'wxml');
+        assert.strictEqual(parser.parse('<view/>', {filePath: '/project/page.ttml'}).xmlType, 'ttml');
+        assert.strictEqual(parser.parse('<view/>', {filePath: '/project/page.wxml', dialect: 'qml'}).xmlType, 'qml');
+        assert.strictEqual(parser.parse('<view/>', {filePath: '/project/page.html'}).xmlType, 'swan');
+        assert.strictEqual(parser.parse('<view/>', {}).xmlType, 'swan');
+        assert.strictEqual(parser.getDialect('axml').directivePrefix, 'a:');
+    });
+
+    it('parse the directives and script modules of wxml', () => {
+        const document = parser.parse(WXML, {filePath: '/project/page.wxml'});
+        const view = document.children[2];
+        const [first, second] = view.children.filter(child => child.type === 'XElement');
+
+        assert.deepStrictEqual(document.errors, []);
+        assert.deepStrictEqual(
+            view.startTag.attributes.map(attr => [attr.type, attr.key.prefix, attr.key.name]),
+            [['XDirective', 'wx:', 'for'], ['XDirective', 'wx:', 'key'], ['XDirective', 'bind', 'tap']]
+        );
+        assert.deepStrictEqual(view.variables.map(variable => variable.id.name), ['item', 'index']);
+        assert.deepStrictEqual(document.variables.map(variable => [variable.id.name, variable.exports]), [['m', ['a']]]);
+        assert.strictEqual(document.variables[0].references.length, 1);
+        assert.strictEqual(first.conditional.kind, 'if');
+        assert.strictEqual(second.conditional.chain, first.conditional.chain);
+        // `s-if` is a plain attribute in wxml
+        assert.strictEqual(second.startTag.attributes[1].type, 'XAttribute');
+    });
+
+    it('report the errors with the prefix of dialect', () => {
+        const document = parser.parse('<view tt:iff="{{a}}" tt:else="{{b}}"/>', {dialect: 'ttml'});
+        assert.strictEqual(document.errors[0].message, 'Unknown directive \'tt:iff\', did you mean \'tt:if\'?');
+        assert.deepStrictEqual(
+            document.errors.map(error => error.code),
+            ['x-unknown-directive', 'x-orphan-conditional-branch', 'x-invalid-directive-value']
+        );
+    });
+
+    it('use the module attributes of axml', () => {
+        const document = parser.parse('<import-sjs name="u" from="./u.sjs"/><view a:if="{{u.x}}"/>', {dialect: 'axml'});
+        assert.strictEqual(document.variables[0].id.name, 'u');
+        assert.strictEqual(document.variables[0].references.length, 1);
+        assert.strictEqual(document.children[1].startTag.attributes[0].key.rawPrefix, 'a:');
+    });
+
+    it('keep the dialect of document when reparsing and transforming', () => {
+        const document = parser.parse(WXML, {filePath: '/project/page.wxml'});
+        const start = WXML.indexOf('item.name');
+        const reparsed = parser.reparse(document, [{range: [start, start + 4], text: 'it'}], {});
+        assert.strictEqual(reparsed.xmlType, 'wxml');
+        assert.strictEqual(reparsed.errors.length, 0);
+
+        const transformer = parser.transform(reparsed, {});
+        const text = reparsed.children[2].children[1];
+        transformer.setAttribute(text, 'wx:elif', '{{ok}}');
+        assert.strictEqual(text.startTag.attributes[1].key.prefix, 'wx:');
+        assert(transformer.generate().code.includes('<text wx:if="{{item.ok}}" wx:elif="{{ok}}">{{m.a}} {{it.name}}'));
+    });
+
+    it('parse script module files and templates for ESLint', () => {
+        const template = parser.parseForESLint(WXML, {filePath: '/project/page.wxml'});
+        assert.strictEqual(template.ast.templateBody.xmlType, 'wxml');
+        assert.strictEqual(template.ast.body.length, 1);
+
+        const script = parser.parseForESLint('module.exports = {a: window.name};', {filePath: '/project/utils.wxs'});
+        assert.strictEqual(script.ast.templateBody, undefined);
+        assert.deepStrictEqual(script.ast.errors.map(error => error.code), ['x-sjs-browser-global']);
+    });
+});
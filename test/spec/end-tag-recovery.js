@@ -0,0 +1,59 @@
+/**
+ * @file end tag recovery spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+function getTree(node) {
+    return node.children
+        .filter(child => child.type === 'XElement')
+        .map(child => [child.name, child.endTag != null, getTree(child)]);
+}
+
+describe('end tag recovery', () => {
+    it('close the element of misspelled end tag', () => {
+        const code = '<view>\n  <text>a</tetx>\n  <view>b</veiw>\n  <text>c</text>\n</view>';
+        const ast = parser.parse(code, {noOpenTag: true});
+
+        assert.deepStrictEqual(getTree(ast), [
+            ['view', true, [['text', true, []], ['view', true, []], ['text', true, []]]]
+        ]);
+        assert.deepStrictEqual(ast.errors.map(error => [error.code, error.index]), [
+            ['x-invalid-end-tag', 16],
+            ['x-invalid-end-tag', 33]
+        ]);
+
+        const [error] = ast.errors;
+        assert.strictEqual(error.message, 'Invalid end tag \'</tetx>\', did you mean \'</text>\' opened at line 2?');
+        assert.strictEqual(error.recovery.expected, 'text');
+        assert.strictEqual(error.recovery.actual, 'tetx');
+        assert.deepStrictEqual(error.recovery.openedAt.range, [9, 15]);
+    });
+
+    it('close the implied elements', () => {
+        const code = '<view>\n  <text>a<image />\n</view>';
+        const ast = parser.parse(code, {noOpenTag: true});
+        const text = ast.children[0].children[1];
+
+        assert.deepStrictEqual(getTree(ast), [['view', true, [['text', false, [['image', false, []]]]]]]);
+        assert.strictEqual(code.slice(...text.range), '<text>a<image />');
+        assert.deepStrictEqual(ast.errors.map(error => [error.code, error.index]), [['missing-end-tag', 9]]);
+        assert.deepStrictEqual(ast.errors[0].recovery, {
+            expected: 'text',
+            actual: null,
+            openedAt: {
+                range: [9, 15],
+                loc: {start: {line: 2, column: 2}, end: {line: 2, column: 8}}
+            }
+        });
+    });
+
+    it('drop unknown end tags', () => {
+        const ast = parser.parse('<view>a</button></view>', {noOpenTag: true});
+
+        assert.deepStrictEqual(getTree(ast), [['view', true, []]]);
+        assert.deepStrictEqual(ast.errors.map(error => [error.code, error.recovery]), [['x-invalid-end-tag', undefined]]);
+    });
+});
@@ -5,6 +5,7 @@
 /* eslint-disable import/unambiguous, @typescript-eslint/no-var-requires, import/no-commonjs */
 
 const assert = require('assert');
+const path = require('path');
 const {parseForESLint} = require('../../');
 const {Linter} = require('../eslint');
 
@@ -29,6 +30,192 @@ describe('parse', () => {
         assert.strictEqual(result.ast.templateBody.children.length, 1);
         assert.strictEqual(result.ast.templateBody.tokens.length, 11);
     });
+
+    it('parse sjs', () => {
+        const code = [
+            'var now = getDate();',
+            'const pattern = getRegExp(\'a\');',
+            'class Foo {}',
+            'async function load() {}',
+            'function* walk() {}',
+            'for (let i = 0; i < 1; i++) {}',
+            'module.exports = {now: now, href: window.location.href};',
+        ].join('\n');
+        const result = parseForESLint(code, {filePath: 'utils.sjs'});
+        const {globalScope} = result.scopeManager;
+
+        assert.strictEqual(result.ast.templateBody, undefined);
+        assert.ok(globalScope.set.has('getDate'), 'globalScope.set.getDate');
+        assert.strictEqual(globalScope.set.get('getRegExp').references.length, 1);
+        assert.deepStrictEqual(globalScope.through.map(r => r.identifier.name), ['window']);
+        assert.deepStrictEqual(result.ast.errors.map(e => [e.code, e.lineNumber]), [
+            ['x-sjs-unsupported-class', 3],
+            ['x-sjs-unsupported-async', 4],
+            ['x-sjs-unsupported-generator', 5],
+            ['x-sjs-unsupported-block-scoped', 6],
+            ['x-sjs-browser-global', 7],
+        ]);
+    });
+
+    it('validate inline sjs module', () => {
+        const code = '<filter module="f">\nvar a = setTimeout;\nmodule.exports = {a: function* () {}};\n</filter>';
+        const result = parseForESLint(code, {filePath: 'page.swan'});
+        assert.deepStrictEqual(
+            result.ast.templateBody.errors.map(e => e.code),
+            ['x-sjs-browser-global', 'x-sjs-unsupported-generator']
+        );
+        assert.ok(result.scopeManager.globalScope.set.has('getDate'), 'globalScope.set.getDate');
+    });
+});
+
+
+describe('services', () => {
+    it('get template definitions and usages', () => {
+        const code = [
+            '<template name="item"><view>{{text}}</view></template>',
+            '<template name="unused"></template>',
+            '<template is="item" data="{{text}}"></template>',
+            '<template is="{{name}}"></template>',
+        ].join('\n');
+        const result = parseForESLint(code, {filePath: 'page.swan'});
+        const definitions = result.services.getTemplateDefinitions();
+        const usages = result.services.getTemplateUsages();
+
+        assert.deepStrictEqual(definitions.map(d => d.name), ['item', 'unused']);
+        assert.strictEqual(definitions[0].nameNode.value, 'item');
+        assert.strictEqual(definitions[1].usages.length, 0);
+        assert.strictEqual(usages.length, 2);
+        assert.strictEqual(usages[0].definition, definitions[0]);
+        assert.strictEqual(usages[0].dataNode.key.name, 'data');
+        assert.strictEqual(usages[1].dynamic, true);
+        assert.strictEqual(usages[1].name, null);
+        assert.strictEqual(result.ast.templateBody.errors.length, 0);
+    });
+
+    it('report undefined template without import', () => {
+        const result = parseForESLint('<template is="item"></template>', {filePath: 'page.swan'});
+        assert.deepStrictEqual(result.ast.templateBody.errors.map(e => e.code), ['x-undefined-template']);
+
+        const imported = parseForESLint(
+            '<import src="./item.swan" /><template is="item"></template>',
+            {filePath: 'page.swan'}
+        );
+        assert.strictEqual(imported.ast.templateBody.errors.length, 0);
+    });
+
+    it('get component schema', () => {
+        const result = parseForESLint('<scroll-view scroll-y></scroll-view>', {filePath: 'page.swan'});
+        const schema = result.services.getComponentSchema('scroll-view');
+
+        assert.strictEqual(schema.name, 'scroll-view');
+        assert.strictEqual(schema.children, true);
+        assert.deepStrictEqual(schema.attributes['scroll-y'], {type: 'boolean', default: false});
+        assert.strictEqual(schema.attributes.class.type, 'string');
+        assert.ok(schema.events.includes('scrolltolower'), 'events.scrolltolower');
+        assert.ok(schema.events.includes('tap'), 'events.tap');
+
+        const image = result.services.getComponentSchema('image');
+        assert.strictEqual(image.children, false);
+        assert.ok(image.attributes.mode.values.includes('aspectFit'), 'attributes.mode.values');
+
+        const include = result.services.getComponentSchema('include');
+        assert.strictEqual(include.attributes.src.required, true);
+        assert.strictEqual(include.attributes.class, undefined);
+        assert.deepStrictEqual(include.events, []);
+
+        assert.strictEqual(result.services.getComponentSchema('my-component'), null);
+        assert.strictEqual(result.services.getComponentSchema('toString'), null);
+    });
+
+    it('tag custom components', () => {
+        const code = '<view><card></card><crad></crad></view>';
+        const readFile = filePath => (filePath === path.resolve('/pages/index.json')
+            ? JSON.stringify({usingComponents: {card: '../components/card/card', tab: '/components/tab/tab'}})
+            : null);
+        const result = parseForESLint(code, {filePath: path.resolve('/pages/index.swan'), readFile});
+        const [view] = result.ast.templateBody.children;
+        const [card, crad] = view.children;
+
+        assert.deepStrictEqual(Object.keys(result.services.getUsingComponents()), ['card', 'tab']);
+        assert.strictEqual(result.services.getElementComponent(view).kind, 'builtin');
+        assert.deepStrictEqual(result.services.getElementComponent(card), {
+            kind: 'custom',
+            name: 'card',
+            path: path.resolve('/components/card/card')
+        });
+        assert.strictEqual(result.services.getElementComponent(crad).kind, 'unknown');
+        assert.ok(!Object.keys(card).includes('component'));
+
+        const configured = parseForESLint('<tab></tab>', {
+            filePath: 'page.swan',
+            usingComponents: {tab: '/components/tab/tab'}
+        });
+        const tab = configured.ast.templateBody.children[0];
+        assert.strictEqual(configured.services.getElementComponent(tab).path, '/components/tab/tab');
+    });
+
+    it('tag slot as built-in component', () => {
+        const result = parseForESLint('<view><slot></slot><slot name="footer"/></view>', {filePath: 'card.swan'});
+        const [view] = result.ast.templateBody.children;
+        for (const slot of view.children) {
+            assert.strictEqual(result.services.getElementComponent(slot).kind, 'builtin');
+        }
+        assert.deepStrictEqual(Object.keys(result.services.getComponentSchema('slot').attributes), ['name']);
+    });
+
+    it('link event handlers to page methods', () => {
+        const script = [
+            'Page({',
+            '    data: {handler: \'\'},',
+            '    onLoad() {},',
+            '    onShow() {},',
+            '    onTap() {},',
+            '    onInput: function (e) {},',
+            '    onUnused() {}',
+            '});',
+        ].join('\n');
+        const readFile = filePath => (filePath === path.resolve('/pages/index.js') ? script : null);
+        const code = '<view bindtap="onTap" bind:input="onInput" catchtouchmove="onMove" bindlongpress="{{handler}}" '
+            + 'catchtouchend="onLoad"></view>';
+        const result = parseForESLint(code, {filePath: path.resolve('/pages/index.swan'), readFile});
+        const handlers = result.services.getEventHandlers();
+
+        assert.deepStrictEqual(handlers.map(h => h.name), ['onTap', 'onInput', 'onMove', 'onLoad']);
+        assert.strictEqual(handlers[0].method.name, 'onTap');
+        assert.strictEqual(handlers[0].method.filePath, path.resolve('/pages/index.js'));
+        assert.deepStrictEqual(handlers[0].method.loc.start, {line: 5, column: 4});
+        assert.strictEqual(handlers[2].method, null);
+        assert.strictEqual(handlers[3].method.lifecycle, true);
+        assert.deepStrictEqual(
+            result.services.getPageMethods().map(m => m.name),
+            ['onLoad', 'onShow', 'onTap', 'onInput', 'onUnused']
+        );
+        assert.deepStrictEqual(result.services.getUnreferencedMethods().map(m => m.name), ['onUnused']);
+        assert.deepStrictEqual(
+            result.ast.templateBody.errors.map(e => [e.code, code.slice(e.index, e.index + 6)]),
+            [['x-undefined-event-handler', 'onMove']]
+        );
+    });
+
+    it('link event handlers to component methods', () => {
+        const script = 'Component({methods: {onTap() {}}, attached() {}});';
+        const readFile = filePath => (filePath === path.resolve('/components/card.js') ? script : null);
+        const code = '<view bindtap="onTap" bindlongpress="attached"></view>';
+        const result = parseForESLint(code, {filePath: path.resolve('/components/card.swan'), readFile});
+
+        assert.strictEqual(result.services.getEventHandlers()[0].method.name, 'onTap');
+        assert.deepStrictEqual(result.ast.templateBody.errors.map(e => e.code), ['x-undefined-event-handler']);
+
+        const unknown = parseForESLint(code, {filePath: 'card.swan'});
+        assert.strictEqual(unknown.services.getEventHandlers().length, 2);
+        assert.strictEqual(unknown.ast.templateBody.errors.length, 0);
+    });
+
+    it('skip custom components without json config', () => {
+        const result = parseForESLint('<card></card>', {filePath: 'page.swan'});
+        assert.strictEqual(result.services.getUsingComponents(), null);
+        assert.strictEqual(result.services.getElementComponent(result.ast.templateBody.children[0]).kind, 'unknown');
+    });
 });
 
 
@@ -39,6 +226,7 @@ describe('lint', () => {
         'swan/no-duplicate-attributes',
         require('../example/rules/no-duplicate-attributes')
     );
+    linter.defineRule('swan/no-parsing-error', require('../example/rules/no-parsing-error'));
 
     it('lint swan', () => {
         const code = '<view class="a" class="b">Hello</view>';
@@ -56,4 +244,47 @@ describe('lint', () => {
         assert.strictEqual(messages.length, 1);
         assert.strictEqual(messages[0].ruleId, 'swan/no-duplicate-attributes');
     });
+
+    it('report inline sjs errors', () => {
+        const code = '<filter module="f">\nvar a = setTimeout;\n</filter>';
+        const config = {
+            parser: 'swan-eslint-parser',
+            rules: {
+                'swan/no-parsing-error': 'error',
+            },
+        };
+        const messages = linter.verify(code, config, 'test.swan');
+
+        assert.deepStrictEqual(messages.map(m => [m.ruleId, m.line]), [['swan/no-parsing-error', 2]]);
+    });
+
+    it('lint sjs', () => {
+        // `.sjs` files have no template body, the errors are on the program
+        linter.defineRule('swan/no-sjs-error', {
+            create(context) {
+                return {
+                    Program(program) {
+                        for (const error of program.errors || []) {
+                            context.report({
+                                loc: {line: error.lineNumber, column: error.column},
+                                message: error.code
+                            });
+                        }
+                    }
+                };
+            }
+        });
+        const code = 'var now = getDate();\nmodule.exports = {now: now, doc: document};';
+        const config = {
+            parser: 'swan-eslint-parser',
+            rules: {
+                'no-undef': 'error',
+                'swan/no-sjs-error': 'error',
+            },
+        };
+        const messages = linter.verify(code, config, 'utils.sjs');
+
+        assert.deepStrictEqual(messages.map(m => m.ruleId), ['swan/no-sjs-error', 'no-undef']);
+        assert.strictEqual(messages[0].message, 'x-sjs-browser-global');
+    });
 });
@@ -0,0 +1,127 @@
+/**
+ * @file formatter spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const parser = require('../../');
+const assert = require('assert');
+
+const FIXTURES = path.join(__dirname, '../fixtures/ast');
+
+describe('formatter', () => {
+    it('indent elements and format mustache expressions', () => {
+        const code = [
+            '<view   class="  list   {{ active?\'on\':\'\' }} "><!-- title -->',
+            '<view bindtap="onTap"  data-id=\'{{item.id}}\' hidden>hello   {{ item.name+"!" }}</view>',
+            '',
+            '',
+            '  <input value="{= name =}"/>',
+            '</view>'
+        ].join('\n');
+
+        assert.strictEqual(parser.format(code), [
+            '<view class="list {{active ? \'on\' : \'\'}}">',
+            '    <!-- title -->',
+            '    <view bindtap="onTap" data-id="{{item.id}}" hidden>',
+            '        hello {{item.name + \'!\'}}',
+            '    </view>',
+            '',
+            '    <input value="{=name=}" />',
+            '</view>',
+            ''
+        ].join('\n'));
+    });
+
+    it('keep the whitespace sensitive content', () => {
+        const code = [
+            '<view><text>  a   b  </text>',
+            '<textarea>  x',
+            '  y</textarea>',
+            '<import-sjs module="m">',
+            '  module.exports = {};',
+            '</import-sjs></view>'
+        ].join('\n');
+
+        assert.strictEqual(parser.format(code), [
+            '<view>',
+            '    <text>  a   b  </text>',
+            '    <textarea>  x',
+            '  y</textarea>',
+            '    <import-sjs module="m">',
+            '  module.exports = {};',
+            '</import-sjs>',
+            '</view>',
+            ''
+        ].join('\n'));
+    });
+
+    it('wrap attributes by the print width and policy', () => {
+        const code = '<image src="{{url}}" mode="aspectFit" lazy-load="{{true}}"/>';
+        const wrapped = [
+            '<image',
+            '    src="{{url}}"',
+            '    mode="aspectFit"',
+            '    lazy-load="{{true}}"',
+            '/>',
+            ''
+        ].join('\n');
+
+        const oneLine = code.replace('"/>', '" />') + '\n';
+
+        assert.strictEqual(parser.format(code), oneLine);
+        assert.strictEqual(parser.format(code, {printWidth: 40}), wrapped);
+        assert.strictEqual(parser.format(code, {attributePerLine: 'always'}), wrapped);
+        assert.strictEqual(parser.format(code, {printWidth: 40, attributePerLine: 'never'}), oneLine);
+        assert.strictEqual(parser.format(code, {printWidth: 40, useTabs: true}), wrapped.replace(/ {4}/g, '\t'));
+    });
+
+    it('normalize quotes and parentheses of expressions', () => {
+        const code = '<view title=\'say "hi"\' s-if="{{ (a+b)*c && !(d||e) }}">{{ -(-a) }}</view>';
+
+        assert.strictEqual(
+            parser.format(code),
+            '<view title=\'say "hi"\' s-if="{{(a + b) * c && !(d || e)}}">{{- -a}}</view>\n'
+        );
+        assert.strictEqual(parser.format('<view>{{ (a, b) }}</view>'), '<view>{{(a, b)}}</view>\n');
+    });
+
+    it('keep the inline content adjacent to elements', () => {
+        assert.strictEqual(parser.format('<view>Hello <text>world</text>!</view>'), [
+            '<view>',
+            '    Hello',
+            '    <text>world</text>!',
+            '</view>',
+            ''
+        ].join('\n'));
+        assert.strictEqual(
+            parser.format('<view>{{a}}<image src="x"/>b <view>c</view> d</view>'),
+            '<view>\n    {{a}}<image src="x" />b\n    <view>c</view>\n    d\n</view>\n'
+        );
+        assert.strictEqual(parser.format('<view>a<!-- c -->b</view>'), '<view>\n    a<!-- c -->b\n</view>\n');
+    });
+
+    it('throw the syntax error', () => {
+        assert.throws(() => parser.format('<view><text></view>', {noOpenTag: true}), /end tag/);
+    });
+
+    describe('format fixtures', () => {
+        for (const name of fs.readdirSync(FIXTURES).filter(name => !name.includes('error'))) {
+            it(name, () => {
+                const filePath = path.join(FIXTURES, name, 'source.swan');
+                const formatted = parser.format(fs.readFileSync(filePath, 'utf8'), {filePath});
+                assert.strictEqual(parser.format(formatted, {filePath}), formatted);
+            });
+        }
+    });
+
+    it('format by prettier plugin', () => {
+        const {parsers, printers} = parser.prettierPlugin;
+        const options = {printWidth: 20, tabWidth: 2, useTabs: false, swanAttributePerLine: 'auto'};
+        const ast = parsers.swan.parse('<view a="1" b="2" c="3"></view>', options);
+        const formatted = printers[parsers.swan.astFormat].print({getValue: () => ast}, options);
+
+        assert.strictEqual(formatted, '<view\n  a="1"\n  b="2"\n  c="3"\n></view>\n');
+    });
+});
@@ -0,0 +1,163 @@
+/**
+ * @file incremental reparse spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const parser = require('../../');
+const assert = require('assert');
+
+const OPTIONS = {noOpenTag: true};
+
+function toJSON(document) {
+    return JSON.stringify(document, (key, value) => {
+        if (key === 'parent' || key === 'variable' || key === 'references') {
+            return undefined;
+        }
+        return value;
+    });
+}
+
+function applyEdit(code, edit) {
+    return code.slice(0, edit.range[0]) + edit.text + code.slice(edit.range[1]);
+}
+
+function assertReparse(code, edit) {
+    const document = parser.parse(code, OPTIONS);
+    const result = parser.reparse(document, [edit], OPTIONS);
+    const expected = parser.parse(applyEdit(code, edit), OPTIONS);
+    assert.strictEqual(toJSON(result), toJSON(expected));
+    return {document, result};
+}
+
+describe('incremental reparse', () => {
+    const code = [
+        '<view class="list">',
+        '    <view s-for="item in list">{{item.name}}</view>',
+        '    <text>{{title}}</text>',
+        '</view>',
+        '<view>{{footer}}</view>'
+    ].join('\n');
+
+    it('reparse the element which contains the edit', () => {
+        const offset = code.indexOf('{{title}}') + 2;
+        const {document, result} = assertReparse(code, {range: [offset, offset + 5], text: 'subTitle'});
+
+        assert.strictEqual(result, document);
+        assert.strictEqual(result.children[0].children[3].children[0].type, 'XMustache');
+    });
+
+    it('shift the locations after the edit', () => {
+        const offset = code.indexOf('<text>');
+        const {result} = assertReparse(code, {range: [offset, offset], text: '<icon />\n    '});
+        const footer = result.tokens.find(token => token.value === 'footer');
+
+        assert.deepStrictEqual(footer.loc.start, {line: 6, column: 8});
+    });
+
+    it('reuse the scope variables of ancestors', () => {
+        const offset = code.indexOf('item.name');
+        const {result} = assertReparse(code, {range: [offset, offset + 9], text: 'item.id + index'});
+        const [item] = result.children[0].children[1].variables;
+
+        assert.strictEqual(item.id.name, 'item');
+        assert.strictEqual(item.references.length, 1);
+    });
+
+    it('keep the errors in reported order and update the lines of messages', () => {
+        const source = [
+            '<view>',
+            '    <text>{{a}}',
+            '</view>',
+            '<view><text>',
+            '</view>'
+        ].join('\n');
+        const offset = source.indexOf('{{a}}') + 5;
+        const {document, result} = assertReparse(source, {range: [offset, offset], text: '\n    <3'});
+
+        assert.strictEqual(result, document);
+        assert.deepStrictEqual(result.errors.map(error => [error.code, error.lineNumber]), [
+            ['invalid-first-character-of-tag-name', 3],
+            ['missing-end-tag', 2],
+            ['missing-end-tag', 5]
+        ]);
+        assert.strictEqual(result.errors[2].message, 'Missing end tag \'</text>\' of the element opened at line 5.');
+    });
+
+    it('reuse the expressions which are not edited', () => {
+        const counter = path.join(os.tmpdir(), `swan-counting-parser-${process.pid}.js`);
+        fs.writeFileSync(counter, [
+            `const espree = require(${JSON.stringify(require.resolve('espree'))});`,
+            'exports.count = 0;',
+            'exports.parse = (code, options) => {',
+            '    exports.count++;',
+            '    return espree.parse(code, options);',
+            '};',
+        ].join('\n'));
+        const options = {
+            noOpenTag: true,
+            script: {parser: counter, sourceType: 'module', ecmaVersion: 2018, range: true, loc: true, tokens: true}
+        };
+        const source = [
+            '<view s-for="item in list trackBy item.id">',
+            '    <text>{{item.name + "!"}}</text><text>{{count * 2}}</text>',
+            '    <text s-if="{{/a/.test(item.name)}}">{{item.a}}</text>',
+            '</view>'
+        ].join('\n');
+        const offset = source.indexOf('<text>{{count');
+        const edit = {range: [offset, offset], text: 'a\n    '};
+
+        try {
+            const document = parser.parse(source, options);
+            const previous = document.children[0].children[1].children[0].value.expression;
+            const {count} = require(counter);
+            const result = parser.reparse(document, [edit], options);
+
+            assert.strictEqual(require(counter).count, count);
+            assert.strictEqual(toJSON(result), toJSON(parser.parse(applyEdit(source, edit), options)));
+            const [item] = result.children[0].variables;
+            assert.deepStrictEqual(item.references.map(reference => reference.id.loc.start.line), [1, 2, 4, 4]);
+            const expression = result.children[0].children[1].children[0].value.expression;
+            assert.notStrictEqual(expression, previous);
+            assert.strictEqual(expression.left.parent, expression);
+            assert.strictEqual(previous.loc.start.line, 2);
+        }
+        finally {
+            fs.unlinkSync(counter);
+        }
+    });
+
+    it('reuse the page script', () => {
+        const script = 'Page({data: {title: \'\'}});';
+        let reads = 0;
+        const options = {
+            noOpenTag: true,
+            filePath: path.resolve('/pages/index.swan'),
+            readFile: filePath => (filePath === path.resolve('/pages/index.js') ? (reads++, script) : null)
+        };
+        const document = parser.parse(code, options);
+        const offset = code.indexOf('title');
+        const edit = {range: [offset, offset + 5], text: 'titel'};
+        const result = parser.reparse(document, [edit], options);
+
+        assert.strictEqual(reads, 1);
+        assert.deepStrictEqual(
+            result.errors.map(error => applyEdit(code, edit).slice(error.index).match(/^\w+/)[0]),
+            ['list', 'titel', 'footer']
+        );
+    });
+
+    it('fallback to full parse if the tags are changed', () => {
+        const offset = code.indexOf('</text>');
+        const {result} = assertReparse(code, {range: [offset, offset + 7], text: ''});
+
+        assert.deepStrictEqual(result.errors.map(error => error.code), ['missing-end-tag']);
+    });
+
+    it('throw error if the document is not parsed', () => {
+        const document = parser.parse(code, OPTIONS);
+        assert.throws(() => parser.reparse(Object.assign({}, document), [], OPTIONS));
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * @file page data spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+const path = require('path');
+
+function parse(code, script) {
+    const scriptPath = path.resolve('/project/pages/index.js');
+    return parser.parse(code, {
+        filePath: path.resolve('/project/pages/index.swan'),
+        parseExpression: true,
+        readFile: filePath => (filePath === scriptPath ? script : null)
+    });
+}
+
+function getErrors(code, script) {
+    return parse(code, script).errors.map(e => [e.code, code.slice(e.index).match(/^\w+/)[0]]);
+}
+
+describe('page data', () => {
+    const page = [
+        'Page({',
+        '    data: {userInfo: {nickName: \'\', avatar: \'\'}, list: [{name: \'a\'}], config: null},',
+        '    onLoad() {',
+        '        this.setData({loaded: true, \'userInfo.age\': 18});',
+        '    },',
+        '    onTap() {}',
+        '});',
+    ].join('\n');
+
+    it('report unknown data keys', () => {
+        const code = '<view s-if="{{loaded}}">{{userInfo.nickName}} {{userinfo}}</view>';
+        assert.deepStrictEqual(getErrors(code, page), [['x-undefined-data', 'userinfo']]);
+    });
+
+    it('report wrong member paths', () => {
+        const code = '<view>{{userInfo.nickname}} {{list[0].title}} {{list.length}} {{config.a.b}}</view>';
+        assert.deepStrictEqual(getErrors(code, page), [
+            ['x-undefined-data-member', 'nickname'],
+            ['x-undefined-data-member', 'title'],
+        ]);
+    });
+
+    it('widen data shape with setData', () => {
+        const code = '<view>{{userInfo.age}} {{list[0].title}} {{list[0].label}}</view>';
+        assert.deepStrictEqual(getErrors(code, page), [
+            ['x-undefined-data-member', 'title'],
+            ['x-undefined-data-member', 'label'],
+        ]);
+
+        const script = [
+            'Page({',
+            '    data: {userInfo: {nickName: \'\'}, list: [{name: \'a\'}]},',
+            '    onLoad() {',
+            '        this.setData({\'list[0].title\': \'\'});',
+            '        getUser(res => this.setData({userInfo: res.userInfo}));',
+            '    }',
+            '});',
+        ].join('\n');
+        assert.deepStrictEqual(getErrors(`${code}<view>{{userInfo.avatarUrl}}</view>`, script), [
+            ['x-undefined-data-member', 'label'],
+        ]);
+    });
+
+    it('skip loop variables, handlers and template definitions', () => {
+        const code = [
+            '<view s-for="item in list" s-key="id" bind:tap="onTap">{{item.title}}</view>',
+            '<template name="card">{{title}}</template>',
+            '<view s-for-items="{{list}}">{{item.name}}</view>',
+        ].join('');
+        assert.deepStrictEqual(getErrors(code, page), []);
+    });
+
+    it('infer component properties', () => {
+        const component = [
+            'Component({',
+            '    properties: {title: String, user: {type: Object, value: {name: \'\'}}},',
+            '    data: {count: 0}',
+            '});',
+        ].join('\n');
+        const code = '<view>{{title}} {{count}} {{user.name}} {{user.age}} {{size}}</view>';
+        assert.deepStrictEqual(getErrors(code, component), [
+            ['x-undefined-data-member', 'age'],
+            ['x-undefined-data', 'size'],
+        ]);
+    });
+
+    it('skip unknown page data', () => {
+        const code = '<view>{{anything.at.all}}</view>';
+        assert.strictEqual(parse(code, null).errors.length, 0);
+        assert.strictEqual(parse(code, 'Page({data: getData()});').errors.length, 0);
+        assert.strictEqual(parse(code, 'Page({data: {...defaults}});').errors.length, 0);
+    });
+});
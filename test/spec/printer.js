@@ -0,0 +1,105 @@
+/**
+ * @file printer spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const parser = require('../../');
+const assert = require('assert');
+
+const FIXTURES = path.join(__dirname, '../fixtures/ast');
+const OPTIONS = {noOpenTag: true};
+
+describe('printer', () => {
+    describe('print the source code of fixtures', () => {
+        for (const name of fs.readdirSync(FIXTURES)) {
+            it(name, () => {
+                const sourcePath = path.join(FIXTURES, name, 'source.swan');
+                const code = fs.readFileSync(sourcePath, 'utf8');
+                assert.strictEqual(parser.print(parser.parse(code, {filePath: sourcePath})), code);
+                assert.strictEqual(parser.print(parser.parse(code, {noOpenTag: true, parseExpression: false})), code);
+            });
+        }
+    });
+
+    const code = [
+        '<view  class="a"   id=\'x\' hidden>',
+        '  <!-- title -->',
+        '  <text>a &amp; b</text>',
+        '  <image src="{{ url }}"  />',
+        '</view>',
+        ''
+    ].join('\n');
+
+    it('print the changed names and values', () => {
+        const ast = parser.parse(code, OPTIONS);
+        const [view] = ast.children;
+        view.rawName = 'block';
+        view.startTag.attributes[1].value[0].value = 'it\'s';
+        view.children[2].children[0].value = 'a < b';
+
+        assert.strictEqual(parser.print(ast), code
+            .replace(/view/g, 'block')
+            .replace('\'x\'', '\'it&#39;s\'')
+            .replace('a &amp; b', 'a &lt; b'));
+    });
+
+    it('keep the formatting around the changed lists', () => {
+        const ast = parser.parse(code, OPTIONS);
+        const [view] = ast.children;
+        const image = view.children[4];
+        view.startTag.attributes.splice(1, 1);
+        view.children.splice(1, 2);
+        image.startTag.attributes.push({
+            type: 'XAttribute',
+            key: {type: 'XIdentifier', name: 'mode', rawName: 'mode'},
+            value: [{type: 'XLiteral', value: 'aspectFit'}]
+        });
+
+        assert.strictEqual(parser.print(ast), [
+            '<view  class="a" hidden>',
+            '  ',
+            '  <image src="{{ url }}" mode="aspectFit"  />',
+            '</view>',
+            ''
+        ].join('\n'));
+        assert.strictEqual(parser.print(image), '<image src="{{ url }}" mode="aspectFit"  />');
+    });
+
+    it('print the new nodes', () => {
+        const ast = parser.parse(code, OPTIONS);
+        const [view] = ast.children;
+        const image = view.children[4];
+        image.startTag.selfClosing = false;
+        image.endTag = {type: 'XEndTag'};
+        view.children.push({
+            type: 'XElement',
+            name: 'icon',
+            rawName: 'icon',
+            startTag: {type: 'XStartTag', selfClosing: true, attributes: []},
+            children: [],
+            endTag: null
+        });
+
+        assert.strictEqual(parser.print(ast), code
+            .replace('"  />', '"></image>')
+            .replace('\n</view>', '\n<icon/></view>'));
+    });
+
+    it('print the reparsed document', () => {
+        const ast = parser.parse(code, OPTIONS);
+        const offset = code.indexOf('b</text>');
+        const result = parser.reparse(ast, [{range: [offset, offset + 1], text: '{{ c }}'}], OPTIONS);
+
+        assert.strictEqual(parser.print(result), code.replace('b</text>', '{{ c }}</text>'));
+    });
+
+    it('throw error if the changed expression can not be printed', () => {
+        const ast = parser.parse(code, OPTIONS);
+        const mustache = ast.children[0].children[4].startTag.attributes[0].value[0];
+        mustache.value.expression = {type: 'Identifier', name: 'src'};
+
+        assert.throws(() => parser.print(ast), /can not be printed/);
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * @file project spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const path = require('path');
+const assert = require('assert');
+const {createProject} = require('../../');
+
+const ROOT = path.resolve('/project');
+
+function createVirtualProject(files) {
+    const contents = new Map(
+        Object.keys(files).map(file => [path.join(ROOT, file), files[file]])
+    );
+    return createProject({
+        rootDir: ROOT,
+        files: Object.keys(files).filter(file => file.endsWith('.swan')),
+        readFile: filePath => (contents.has(filePath) ? contents.get(filePath) : null),
+    });
+}
+
+describe('createProject', () => {
+    it('build dependency graph', () => {
+        const project = createVirtualProject({
+            'pages/index.swan': [
+                '<import src="../components/item.swan" />',
+                '<include src="/components/header" />',
+                '<import-sjs src="./index.sjs" module="utils" />',
+            ].join('\n'),
+            'pages/index.sjs': 'module.exports = {};',
+            'components/item.swan': '<template name="item"></template>',
+            'components/header.swan': '<view>header</view>',
+        });
+        const edges = project.getDependencies('pages/index.swan');
+
+        assert.deepStrictEqual(edges.map(edge => edge.kind), ['import', 'include', 'import-sjs']);
+        assert.deepStrictEqual(
+            edges.map(edge => path.relative(ROOT, edge.to)),
+            [
+                path.join('components', 'item.swan'),
+                path.join('components', 'header.swan'),
+                path.join('pages', 'index.sjs'),
+            ]
+        );
+        assert.strictEqual(project.getDependents('components/item.swan').length, 1);
+        assert.ok(project.getFile('components/header.swan').document);
+        assert.strictEqual(project.diagnostics.length, 0);
+    });
+
+    it('report unresolved and cyclic dependencies', () => {
+        const project = createVirtualProject({
+            'a.swan': '<include src="./b.swan" /><import src="./missing.swan" />',
+            'b.swan': '<include src="./a.swan" />',
+        });
+
+        assert.deepStrictEqual(
+            project.diagnostics.map(diagnostic => diagnostic.code),
+            ['x-unresolved-dependency', 'x-cyclic-dependency']
+        );
+        assert.strictEqual(project.diagnostics[0].edge.src, './missing.swan');
+        assert.strictEqual(project.diagnostics[1].filePath, path.join(ROOT, 'b.swan'));
+    });
+});
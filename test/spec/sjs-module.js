@@ -0,0 +1,94 @@
+/**
+ * @file sjs module spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+const path = require('path');
+
+function parse(code, options) {
+    return parser.parse(code, {
+        filePath: path.resolve('/project/page.swan'),
+        parseExpression: true,
+        ...options
+    });
+}
+
+describe('sjs module', () => {
+    it('resolve inline module references', () => {
+        const ast = parse('<import-sjs module="sjs">module.exports = {hello: 1, world: 2};</import-sjs>'
+            + '<view>{{sjs.hello}}{{sjs[\'world\']}}</view>');
+        const [variable] = ast.variables;
+        assert.strictEqual(ast.errors.length, 0);
+        assert.strictEqual(variable.id.name, 'sjs');
+        assert.strictEqual(variable.kind, 'module');
+        assert.deepStrictEqual(variable.exports, ['hello', 'world']);
+        assert.strictEqual(variable.references.length, 2);
+        assert.strictEqual(variable.references[0].variable, variable);
+    });
+
+    it('collect exports assignments', () => {
+        const ast = parse('<filter module="f">exports.a = 1; module.exports.b = 2;</filter>');
+        assert.deepStrictEqual(ast.variables[0].exports, ['a', 'b']);
+    });
+
+    it('report non-exported member', () => {
+        const ast = parse('<filter module="f">module.exports = {a: 1};</filter><view>{{f.a}} {{f.b()}}</view>');
+        assert.deepStrictEqual(ast.errors.map(e => e.code), ['x-undefined-module-member']);
+        assert.strictEqual(ast.errors[0].index, 70);
+    });
+
+    it('skip unknown exports', () => {
+        const ast = parse('<filter module="f">module.exports = createFilter();</filter><view>{{f.b}}</view>');
+        assert.strictEqual(ast.variables[0].exports, null);
+        assert.strictEqual(ast.errors.length, 0);
+    });
+
+    it('loop variables shadow module', () => {
+        const ast = parse('<filter module="f">module.exports = {};</filter><view s-for="f in list">{{f.b}}</view>');
+        assert.strictEqual(ast.variables[0].references.length, 0);
+        assert.strictEqual(ast.errors.length, 0);
+    });
+
+    it('read external module', () => {
+        const files = [];
+        const ast = parse('<import-sjs module="ext" src="./utils/ext.sjs"/><view>{{ext.format(a)}}{{ext.x}}</view>', {
+            readFile(filePath) {
+                if (path.extname(filePath) !== '.sjs') {
+                    return null;
+                }
+                files.push(filePath);
+                return 'module.exports = {format: function (a) {return a;}};';
+            }
+        });
+        assert.deepStrictEqual(files, [path.resolve('/project/utils/ext.sjs')]);
+        assert.deepStrictEqual(ast.variables[0].exports, ['format']);
+        assert.deepStrictEqual(ast.errors.map(e => e.code), ['x-undefined-module-member']);
+    });
+
+    it('resolve absolute external module from root directory', () => {
+        const files = [];
+        const readFile = filePath => {
+            if (path.extname(filePath) !== '.sjs') {
+                return null;
+            }
+            files.push(filePath);
+            return 'module.exports = {x: 1};';
+        };
+        const code = '<import-sjs module="ext" src="/utils/ext.sjs"/><view>{{ext.x}}</view>';
+        const ast = parse(code, {rootDir: path.resolve('/project'), readFile});
+        assert.deepStrictEqual(files, [path.resolve('/project/utils/ext.sjs')]);
+        assert.deepStrictEqual(ast.variables[0].exports, ['x']);
+
+        assert.strictEqual(parse(code, {readFile}).variables[0].exports, null);
+        assert.strictEqual(files.length, 1);
+    });
+
+    it('skip external module without reader', () => {
+        const ast = parse('<import-sjs module="ext" src="./ext.sjs"/><view>{{ext.x}}</view>');
+        assert.strictEqual(ast.variables[0].exports, null);
+        assert.strictEqual(ast.variables[0].references.length, 1);
+        assert.strictEqual(ast.errors.length, 0);
+    });
+});
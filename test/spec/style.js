@@ -0,0 +1,89 @@
+/**
+ * @file inline style spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+function parseAttributes(code, options) {
+    const ast = parser.parse(code, {
+        filePath: 'page.swan',
+        parseExpression: true,
+        styleAttributes: ['style', 'hover-style'],
+        ...options
+    });
+    return ast.children[0].startTag.attributes;
+}
+
+describe('inline style', () => {
+    it('parse declarations', () => {
+        const code = '<view style="color: {{color}}; width: 10px !important;\n background: url(\'a;b\');"></view>';
+        const [style] = parseAttributes(code);
+        const declarations = style.declarations;
+
+        assert.deepStrictEqual(
+            declarations.map(d => [d.property.text, d.value.text, d.important]),
+            [['color', '{{color}}', false], ['width', '10px', true], ['background', 'url(\'a;b\')', false]]
+        );
+        assert.strictEqual(declarations[0].type, 'XStyleDeclaration');
+        assert.strictEqual(declarations[0].parent, style);
+        assert.strictEqual(code.slice(...declarations[1].range), 'width: 10px !important');
+        assert.strictEqual(code.slice(...declarations[1].value.range), '10px');
+        assert.deepStrictEqual(declarations[2].property.loc.start, {line: 2, column: 1});
+    });
+
+    it('keep mustaches as expressions', () => {
+        const [style] = parseAttributes('<view style="{{name}}: {{a ? \'1;2\' : 0}}px; height"></view>');
+        const [dynamic, invalid] = style.declarations;
+
+        assert.strictEqual(style.declarations.length, 2);
+        assert.strictEqual(dynamic.property.expressions[0], style.value[0]);
+        assert.strictEqual(dynamic.value.expressions[0].type, 'XMustache');
+        assert.strictEqual(dynamic.value.expressions[0].value.expression.type, 'ConditionalExpression');
+        assert.strictEqual(invalid.property.text, 'height');
+        assert.strictEqual(invalid.value, null);
+    });
+
+    it('traverse declarations', () => {
+        const ast = parser.parse('<view style="color: {{c}}; width: 10px"></view>', {
+            filePath: 'page.swan',
+            parseExpression: true,
+            styleAttributes: ['style']
+        });
+        const visited = [];
+        parser.traverseNodes(ast.children[0].startTag, {
+            enterNode(node, parent) {
+                if (node.type.startsWith('XStyle') || node.type === 'XMustache') {
+                    visited.push([node.type, parent.type, node.text]);
+                }
+            },
+            leaveNode() {}
+        });
+
+        assert.deepStrictEqual(visited, [
+            ['XMustache', 'XAttribute', undefined],
+            ['XStyleDeclaration', 'XAttribute', undefined],
+            ['XStyleText', 'XStyleDeclaration', 'color'],
+            ['XStyleText', 'XStyleDeclaration', '{{c}}'],
+            ['XStyleDeclaration', 'XAttribute', undefined],
+            ['XStyleText', 'XStyleDeclaration', 'width'],
+            ['XStyleText', 'XStyleDeclaration', '10px'],
+        ]);
+        const [declaration] = ast.children[0].startTag.attributes[0].declarations;
+        assert.strictEqual(declaration.property.parent, declaration);
+        assert.strictEqual(declaration.value.parent, declaration);
+    });
+
+    it('parse configured attributes only', () => {
+        const [style, hoverStyle, other] = parseAttributes(
+            '<view style="" hover-style="color: red" data-style="color: red"></view>'
+        );
+        assert.deepStrictEqual(style.declarations, []);
+        assert.strictEqual(hoverStyle.declarations[0].property.text, 'color');
+        assert.strictEqual(other.declarations, undefined);
+
+        const [defaultStyle] = parseAttributes('<view style="color: red"></view>', {styleAttributes: undefined});
+        assert.strictEqual(defaultStyle.declarations, undefined);
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * @file tag tables spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+const OPTIONS = {
+    voidTags: ['import'],
+    rawTextTags: ['Markdown'],
+    rcdataTags: ['note'],
+    canBeLeftOpenTags: ['item']
+};
+
+/**
+ * Get the types of child nodes.
+ * @param {Object} element The element.
+ */
+function getChildTypes(element) {
+    return element.children.map(child => child.type);
+}
+
+describe('tag tables', () => {
+
+    it('parse the raw text and rcdata tags of options', () => {
+        const code = '<markdown># <b>{{x}}</b></markdown><note><b>{{x}}</b></note>';
+        const [markdown, note] = parser.parse(code, OPTIONS).children;
+        assert.deepStrictEqual(getChildTypes(markdown), ['XText', 'XMustache', 'XText']);
+        assert.strictEqual(markdown.children[0].value, '# <b>');
+        assert.deepStrictEqual(getChildTypes(note), ['XText', 'XMustache', 'XText']);
+
+        const [element] = parser.parse(code, {}).children;
+        assert.deepStrictEqual(getChildTypes(element), ['XText', 'XElement']);
+    });
+
+    it('close the custom tags with hyphens and digits', () => {
+        const code = '<code-block><b>{{x}}</b></code-block><md2><i>a</i></md2><view/>';
+        const document = parser.parse(code, {rawTextTags: ['md2'], rcdataTags: ['code-block']});
+        const [block, md, view] = document.children;
+        assert.deepStrictEqual(document.errors, []);
+        assert.deepStrictEqual([block.name, md.name, view.name], ['code-block', 'md2', 'view']);
+        assert.deepStrictEqual(getChildTypes(block), ['XText', 'XMustache', 'XText']);
+        assert.strictEqual(md.children[0].value, '<i>a</i>');
+        assert.notStrictEqual(block.endTag, null);
+    });
+
+    it('report the void tags of options which are not self-closing', () => {
+        const document = parser.parse('<import src="a.swan"><import src="b.swan"/><view/>', OPTIONS);
+        assert.deepStrictEqual(document.children.map(child => child.name), ['import', 'import', 'view']);
+        assert.deepStrictEqual(
+            document.errors.map(error => [error.code, error.index]),
+            [['non-void-html-element-start-tag-with-trailing-solidus', 0]]
+        );
+        assert.deepStrictEqual(parser.parse('<import src="a.swan"></import>', {}).errors, []);
+    });
+
+    it('close the tags which can be left open', () => {
+        const code = '<list><item>a<item>b</item></list>';
+        const [list] = parser.parse(code, OPTIONS).children;
+        assert.deepStrictEqual(list.children.map(child => child.name), ['item', 'item']);
+        assert.strictEqual(list.children[0].endTag, null);
+
+        const [nested] = parser.parse(code, {}).children;
+        assert.deepStrictEqual(nested.children.map(child => child.name), ['item']);
+    });
+
+    it('format the raw text tags of options as is', () => {
+        const code = '<markdown>\n  # a    b\n</markdown>\n<view>\n    x    y</view>\n';
+        assert.strictEqual(
+            parser.format(code, {rawTextTags: ['markdown']}),
+            '<markdown>\n  # a    b\n</markdown>\n<view>x y</view>\n'
+        );
+    });
+});
@@ -0,0 +1,266 @@
+/**
+ * @file transform spec
+ * @author mengke(kekee000@gmail.com)
+ */
+
+const parser = require('../../');
+const assert = require('assert');
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode the mappings of source map to `[line, column, originalLine, originalColumn]` segments.
+ * @param {string} mappings The mappings.
+ */
+function decodeMappings(mappings) {
+    const segments = [];
+    const state = [0, 0, 0];
+    mappings.split(';').forEach((line, lineIndex) => {
+        let column = 0;
+        for (const segment of line.split(',').filter(Boolean)) {
+            const values = [];
+            let value = 0;
+            let shift = 0;
+            for (const char of segment) {
+                const digit = BASE64.indexOf(char);
+                value += (digit & 31) << shift;
+                shift += 5;
+                if (!(digit & 32)) {
+                    values.push(value & 1 ? -(value >> 1) : value >> 1);
+                    value = 0;
+                    shift = 0;
+                }
+            }
+            column += values[0];
+            if (values.length > 1) {
+                state[0] += values[1];
+                state[1] += values[2];
+                state[2] += values[3];
+                segments.push([lineIndex, column, state[1], state[2]]);
+            }
+            else {
+                segments.push([lineIndex, column, -1, -1]);
+            }
+        }
+    });
+    return segments;
+}
+
+/**
+ * Check that the mapped text of generated code is the same as the original text.
+ * @param {Object} result The result of `generate()`.
+ */
+function assertSourceMap({code, map}) {
+    const lines = code.split('\n');
+    const originalLines = map.sourcesContent[0].split('\n');
+    const segments = decodeMappings(map.mappings);
+    segments.forEach(([line, column, originalLine, originalColumn], i) => {
+        if (originalLine === -1) {
+            return;
+        }
+        const next = segments[i + 1];
+        const end = next && next[0] === line ? next[1] : lines[line].length;
+        const text = lines[line].slice(column, end);
+        assert.strictEqual(originalLines[originalLine].slice(originalColumn, originalColumn + text.length), text);
+    });
+    return segments;
+}
+
+describe('transform', () => {
+    const code = [
+        '<view class="list">',
+        '    <view s-for="item in list" bindtap="onTap">',
+        '        <text>{{ item.name }}</text>',
+        '        <image src="{{item.url}}" />',
+        '    </view>',
+        '    <button s-if="{{show}}" hidden>ok</button>',
+        '</view>',
+        ''
+    ].join('\n');
+
+    it('generate the same code without changes', () => {
+        const ast = parser.parse(code, {filePath: 'list.swan'});
+        const result = parser.transform(ast, {filePath: 'list.swan'}).generate();
+
+        assert.strictEqual(result.code, code);
+        assert.deepStrictEqual(result.map.sources, ['list.swan']);
+        assert.deepStrictEqual(result.map.sourcesContent, [code]);
+        assert.strictEqual(assertSourceMap(result).length, 7);
+    });
+
+    it('transform the nodes by visitor', () => {
+        const ast = parser.parse(code, {});
+        const visited = [];
+        const transformer = parser.transform(ast, {}, {
+            XElement(node, helper) {
+                visited.push(node.name);
+                if (node.name === 'image') {
+                    helper.insertBefore(node, '<icon type="{{item.type}}"/>');
+                }
+                else if (node.name === 'button') {
+                    helper.renameElement(node, 'custom-button');
+                    helper.setAttribute(node, 's-if', '{{show && ready}}');
+                    helper.setAttribute(node, 'type', 'primary');
+                    helper.removeAttribute(node, 'hidden');
+                }
+            },
+            XExpression(node, helper) {
+                if (node.expression && node.expression.type === 'MemberExpression'
+                    && node.expression.property.name === 'name') {
+                    helper.rewriteExpression(node, 'item.title');
+                }
+            }
+        });
+        const result = transformer.generate();
+
+        assert.deepStrictEqual(visited, ['view', 'view', 'text', 'image', 'button']);
+        assert.strictEqual(result.code, code
+            .replace('{{ item.name }}', '{{item.title}}')
+            .replace('        <image', '        <icon type="{{item.type}}"/>\n        <image')
+            .replace(/button/g, 'custom-button')
+            .replace('{{show}}" hidden', '{{show && ready}}" type="primary"'));
+        assertSourceMap(result);
+    });
+
+    it('keep parent links, tokens and references consistent', () => {
+        const ast = parser.parse(code, {});
+        const transformer = parser.transform(ast, {});
+        const [list] = ast.children;
+        const item = list.children[1];
+        const [variable] = item.variables;
+        const text = item.children[1];
+
+        assert.strictEqual(variable.references.length, 2);
+        transformer.removeElement(text);
+        assert.strictEqual(variable.references.length, 1);
+        assert(!ast.tokens.some(token => token.range[0] >= text.range[0] && token.range[1] <= text.range[1]));
+
+        const footer = transformer.appendChild(list, '<footer/>');
+        const label = transformer.appendChild(footer, '<text>end</text>');
+        assert.strictEqual(footer.parent, list);
+        assert.strictEqual(label.parent, footer);
+        assert.strictEqual(transformer.generate().code, [
+            '<view class="list">',
+            '    <view s-for="item in list" bindtap="onTap">',
+            '        <image src="{{item.url}}" />',
+            '    </view>',
+            '    <button s-if="{{show}}" hidden>ok</button>',
+            '    <footer><text>end</text></footer>',
+            '</view>',
+            ''
+        ].join('\n'));
+    });
+
+    it('insert the tokens and resolve the references of new nodes', () => {
+        const ast = parser.parse(code, {});
+        const transformer = new parser.Transformer(ast, {});
+        const [list] = ast.children;
+        const item = list.children[1];
+        const [variable] = item.variables;
+        const getValues = () => ast.tokens.map(token => token.value);
+
+        const icon = transformer.appendChild(item, '<icon type="{{item.type}}"/>');
+        const [type] = icon.startTag.attributes[0].value[0].value.references;
+        assert.strictEqual(type.variable, variable);
+        assert.strictEqual(variable.references.length, 3);
+        assert.deepStrictEqual(getValues().slice(getValues().indexOf('icon'), getValues().indexOf('icon') + 3), [
+            'icon', 'type', ''
+        ]);
+        assert(getValues().indexOf('icon') < getValues().lastIndexOf('view'));
+        assert(ast.tokens.every((token, i) => i === 0 || ast.tokens[i - 1].range[0] <= token.range[0]));
+
+        const expression = transformer.rewriteExpression(item.children[1].children[0].value, 'item.title + index');
+        assert.deepStrictEqual(expression.references.map(reference => reference.variable), item.variables);
+        assert(getValues().includes('title'));
+        assert(!getValues().includes('name'));
+
+        transformer.removeElement(icon);
+        assert(!getValues().includes('icon'));
+        assert.strictEqual(variable.references.length, 2);
+    });
+
+    it('define the loop variables again after rewriting the for expression', () => {
+        const ast = parser.parse([
+            '<view s-for="item in list">',
+            '    <view s-for="item in item.children">{{item.name}}</view>',
+            '    <view s-for="list" s-for-item="row">{{row.name}}{{item.id}}</view>',
+            '</view>'
+        ].join('\n'), {});
+        const transformer = parser.transform(ast, {});
+        const [outer] = ast.children;
+        const [, first, , second] = outer.children;
+        const getNames = element => element.variables.map(variable => variable.id.name);
+
+        transformer.rewriteExpression(first.startTag.attributes[0].value[0], 'child in item.children');
+        assert.deepStrictEqual(getNames(first), ['child', 'index']);
+        assert.deepStrictEqual(outer.variables[0].references.map(reference => reference.id.parent.property.name), [
+            'id', 'children', 'name'
+        ]);
+
+        transformer.rewriteExpression(second.startTag.attributes[1].value[0], 'item');
+        assert.deepStrictEqual(getNames(second), ['item', 'index']);
+        const [row, item] = second.children.map(mustache => mustache.value.references[0]);
+        assert.strictEqual(row.variable, null);
+        assert.strictEqual(item.variable, second.variables[0]);
+        assert.strictEqual(outer.variables[0].references.length, 2);
+    });
+
+    it('escape the quotes of attribute values', () => {
+        const ast = parser.parse(code, {});
+        const transformer = parser.transform(ast, {});
+        const [list] = ast.children;
+        const button = list.children[3];
+
+        const title = transformer.setAttribute(button, 'title', 'say "hi" it\'s {{name}}');
+        assert.strictEqual(title.value[0].value, 'say "hi" it\'s ');
+        const label = transformer.setAttribute(button, 'aria-label', '{{a ? "b" : c}} it\'s');
+        assert.strictEqual(label.value[1].value, ' it\'s');
+        assert.strictEqual(transformer.generate().code, code.replace(
+            'hidden>',
+            'hidden title="say &quot;hi&quot; it\'s {{name}}" aria-label=\'{{a ? "b" : c}} it&#39;s\'>'
+        ));
+        assert.throws(() => transformer.setAttribute(button, 'title', '{{"a" + \'b\'}}'), /can not be quoted/);
+    });
+
+    it('move the nodes and replace elements', () => {
+        const ast = parser.parse(code, {});
+        const transformer = parser.transform(ast, {});
+        const [list] = ast.children;
+        const [, item, , button] = list.children;
+
+        transformer.insertBefore(item, button);
+        transformer.replaceElement(item.children[3], '<image src="{{item.url}}" mode="aspectFit"/>');
+        const result = transformer.generate();
+
+        assert.strictEqual(result.code, [
+            '<view class="list">',
+            '    <button s-if="{{show}}" hidden>ok</button>',
+            '    <view s-for="item in list" bindtap="onTap">',
+            '        <text>{{ item.name }}</text>',
+            '        <image src="{{item.url}}" mode="aspectFit"/>',
+            '    </view>',
+            '</view>',
+            ''
+        ].join('\n'));
+        assertSourceMap(result);
+    });
+
+    it('throw error if the node is invalid', () => {
+        const ast = parser.parse(code, {});
+        const transformer = parser.transform(ast, {});
+        const button = ast.children[0].children[3];
+        transformer.removeElement(button);
+
+        assert.throws(() => transformer.createElement('text'), /element is invalid/);
+        assert.throws(() => transformer.removeElement(button), /not in the document/);
+        assert.throws(() => parser.transform({type: 'XDocument', children: []}, {}), /should be created/);
+    });
+
+    it('apply the default parser options', () => {
+        const ast = parser.parse(code, {});
+        const transformer = new parser.Transformer(ast, {});
+        const [mustache] = ast.children[0].children[1].children[1].children;
+
+        assert.strictEqual(transformer.rewriteExpression(mustache.value, 'a').expression.name, 'a');
+    });
+});
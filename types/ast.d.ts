@@ -4,6 +4,7 @@
  */
 
 import * as script from './script';
+import {DialectName} from './dialect';
 
 export interface Location {
     line: number;
@@ -58,9 +59,15 @@ export type SwanForExpression = {
 
 export type XAttributeValue = (XLiteral | XMustache | Mustache | XExpression)[];
 
+/**
+ * `one-way` for `{{ }}`, `two-way` for `{= =}` in attribute values.
+ */
+export type MustacheBinding = 'one-way' | 'two-way';
+
 export interface XMustache extends HasLocation, HasParent {
     type: 'XMustache';
     parent: XAttribute | XDirective | XElement | XDocument;
+    binding: MustacheBinding;
     startToken: Token;
     endToken: Token;
     value: XExpression;
@@ -68,6 +75,7 @@ export interface XMustache extends HasLocation, HasParent {
 
 export interface Mustache extends HasLocation, HasParent {
     type: 'Mustache';
+    binding: MustacheBinding;
     value: string;
     startToken: Token;
     endToken: Token;
@@ -93,16 +101,42 @@ export interface XIdentifier extends HasLocation, HasParent {
     rawName: string;
 }
 
-export type ControlDirectivePrefix = 's-';
-export type EventDirectivePrefix = 'bind' | 'catch' | 'capture-bind' | 'capture-catch';
+/**
+ * The control directive prefix of each dialect, e.g. `s-` of swan, `wx:` of wxml.
+ */
+export type ControlDirectivePrefix = 's-' | 'wx:' | 'a:' | 'tt:' | 'qq:';
+export type EventDirectivePrefix = 'bind' | 'catch' | 'capture-bind' | 'capture-catch' | 'mut-bind';
+
+/**
+ * A part of directive key, e.g. `bind:`, `touchmove` and `stop` of `bind:touchmove.stop`.
+ */
+export interface XDirectiveKeyPart extends HasLocation {
+    value: string;
+}
 
 export interface XDirectiveKey extends HasLocation, HasParent {
     type: 'XDirectiveKey';
     parent: XDirective;
+    /**
+     * The name after prefix, e.g. `for-item` of `s-for-item`, `touchmove.stop` of `bind:touchmove.stop`.
+     */
     name: string;
+    /**
+     * The event name of event directives, e.g. `touchmove` of `bind:touchmove.stop`, `null` for control directives.
+     */
+    argument: string | null;
+    /**
+     * The modifiers of event directives, e.g. `['stop']` of `bind:touchmove.stop`.
+     */
+    modifiers: string[];
     prefix: ControlDirectivePrefix | EventDirectivePrefix;
     rawPrefix: string;
     rawName: string;
+    parts: {
+        prefix: XDirectiveKeyPart;
+        argument: XDirectiveKeyPart | null;
+        modifiers: XDirectiveKeyPart[];
+    };
 }
 
 export interface XAttribute extends HasLocation, HasParent {
@@ -110,6 +144,57 @@ export interface XAttribute extends HasLocation, HasParent {
     parent: XStartTag;
     key: XIdentifier;
     value: XAttributeValue;
+    /**
+     * The declarations of inline style attribute, only if the attribute is in `styleAttributes` option.
+     */
+    declarations?: XStyleDeclaration[];
+    /**
+     * The class tokens of `class` attribute.
+     */
+    classList?: XClassToken[];
+}
+
+/**
+ * The whitespace separated token of `class` attribute,
+ * `dynamic` if it has mustaches, e.g. `btn-{{type}}`.
+ */
+export interface XClassToken extends HasLocation {
+    kind: 'static' | 'dynamic';
+    text: string;
+    expressions: (XMustache | Mustache)[];
+}
+
+/**
+ * The property or value text of style declaration.
+ */
+export interface XStyleText extends HasLocation, HasParent {
+    type: 'XStyleText';
+    parent: XStyleDeclaration;
+    /**
+     * The raw text, the mustaches are kept as is.
+     */
+    text: string;
+    /**
+     * The mustaches in this text, they are the values of the attribute and traversed as its children.
+     */
+    expressions: (XMustache | Mustache)[];
+}
+
+/**
+ * `color: {{c}}` of `style="color: {{c}}; width: 10px"`.
+ */
+export interface XStyleDeclaration extends HasLocation, HasParent {
+    type: 'XStyleDeclaration';
+    parent: XAttribute;
+    property: XStyleText;
+    /**
+     * `null` if the declaration has no colon.
+     */
+    value: XStyleText | null;
+    /**
+     * Whether the value has `!important`, it is excluded from the value text.
+     */
+    important: boolean;
 }
 
 export interface XText extends HasLocation, HasParent {
@@ -123,16 +208,142 @@ export interface ParseError extends SyntaxError {
     index: number;
     lineNumber: number;
     column: number;
+    /**
+     * The recovery information of mismatched or missing end tag.
+     */
+    recovery?: XEndTagRecovery;
+}
+
+/**
+ * How the parser recovered from the mismatched or missing end tag.
+ */
+export interface XEndTagRecovery {
+    /**
+     * The name of the element which the end tag should close.
+     */
+    expected: string;
+    /**
+     * The name of the mismatched end tag, `null` if the end tag is missing.
+     */
+    actual: string | null;
+    /**
+     * The start tag of the expected element.
+     */
+    openedAt: HasLocation;
 }
 
 export interface XDocument extends HasLocation, HasParent {
     type: 'XDocument';
-    xmlType: 'swan' | 'unknown';
+    /**
+     * The dialect of this document, it is selected by `dialect` option or the extension name of `filePath`.
+     */
+    xmlType: DialectName | 'unknown';
     parent: null;
     children: (XElement | XText | XMustache | Mustache)[];
     tokens: Token[];
     comments: Token[];
     errors: ParseError[];
+    /**
+     * The script modules of this document, e.g. `<import-sjs module="x">` and `<filter module="x">` of swan.
+     */
+    variables: script.Variable[];
+    /**
+     * The template definitions and usages of this document, it is not enumerable.
+     */
+    templates?: XTemplateTable;
+    /**
+     * The `usingComponents` of the page or component json config, it is not enumerable.
+     * `null` if the config can not be loaded.
+     */
+    usingComponents?: Record<string, string> | null;
+    /**
+     * The event handlers and the methods of page or component script, it is not enumerable.
+     */
+    eventHandlers?: XEventHandlerTable;
+}
+
+/**
+ * The method of page or component script, e.g. `onTap() {}`.
+ */
+export interface XPageMethod {
+    name: string;
+    /**
+     * The file path of page or component script.
+     */
+    filePath: string;
+    /**
+     * The location of method name in the script.
+     */
+    range: OffsetRange;
+    loc: LocationRange;
+    /**
+     * Whether the method is a page lifecycle hook, e.g. `onLoad`.
+     */
+    lifecycle: boolean;
+    handlers: XEventHandler[];
+}
+
+/**
+ * The static handler of event directive, e.g. `bindtap="onTap"`.
+ */
+export interface XEventHandler {
+    name: string;
+    directive: XDirective;
+    /**
+     * The handler name node.
+     */
+    node: XLiteral | XExpression;
+    method: XPageMethod | null;
+}
+
+export interface XEventHandlerTable {
+    handlers: XEventHandler[];
+    /**
+     * The methods of page or component script, empty if the script can not be loaded.
+     */
+    methods: XPageMethod[];
+}
+
+/**
+ * `<template name="x">`
+ */
+export interface XTemplateDefinition {
+    name: string;
+    /**
+     * The value of `name` attribute.
+     */
+    nameNode: XLiteral;
+    element: XElement;
+    usages: XTemplateUsage[];
+}
+
+/**
+ * `<template is="x" data="{{...}}">`
+ */
+export interface XTemplateUsage {
+    /**
+     * The template name of static `is`, `null` for dynamic `is`.
+     */
+    name: string | null;
+    dynamic: boolean;
+    /**
+     * The `is` attribute.
+     */
+    isNode: XAttribute;
+    /**
+     * The `data` attribute.
+     */
+    dataNode: XAttribute | null;
+    element: XElement;
+    /**
+     * The local definition of static `is`.
+     */
+    definition: XTemplateDefinition | null;
+}
+
+export interface XTemplateTable {
+    definitions: XTemplateDefinition[];
+    usages: XTemplateUsage[];
 }
 
 
@@ -145,6 +356,41 @@ export interface XElement extends HasLocation, HasParent {
     children: (XElement | XText | XMustache | Mustache | XModule)[];
     endTag: XEndTag | null;
     variables: script.Variable[];
+    /**
+     * The conditional chain of `s-if`, `s-elif` and `s-else` branches, it is not enumerable.
+     */
+    conditional?: XConditional;
+    /**
+     * The component of this element, it is not enumerable.
+     */
+    component?: XComponent;
+}
+
+export type XComponentKind = 'builtin' | 'custom' | 'unknown';
+
+export interface XComponent {
+    kind: XComponentKind;
+    name: string;
+    /**
+     * The resolved path of custom component, relative path is resolved from the json config,
+     * absolute path and plugin path are kept as is.
+     */
+    path: string | null;
+}
+
+export type XConditionalKind = 'if' | 'elif' | 'else';
+
+export interface XConditional {
+    /**
+     * The branch elements of the chain, starts with the `s-if` element.
+     */
+    chain: XElement[];
+    /**
+     * The index of the element in the chain.
+     */
+    index: number;
+    kind: XConditionalKind;
+    directive: XDirective;
 }
 
 export interface XExpression extends HasLocation, HasParent {
@@ -175,6 +421,8 @@ export type XNode =
     | XDocument
     | XExpression
     | XModule
+    | XStyleDeclaration
+    | XStyleText
 
 export type ScriptNode = script.ScriptNode;
 export type Node = ScriptNode | XNode;
@@ -215,6 +463,14 @@ export type ErrorCode =
     | 'nested-comment'
     | 'noncharacter-in-input-stream'
     | 'surrogate-in-input-stream'
+    | 'absence-of-digits-in-numeric-character-reference'
+    | 'character-reference-outside-unicode-range'
+    | 'control-character-reference'
+    | 'missing-semicolon-after-character-reference'
+    | 'noncharacter-character-reference'
+    | 'null-character-reference'
+    | 'surrogate-character-reference'
+    | 'unknown-named-character-reference'
     | 'unexpected-character-in-attribute-name'
     | 'unexpected-character-in-unquoted-attribute-value'
     | 'unexpected-equals-sign-before-attribute-name'
@@ -230,5 +486,23 @@ export type ErrorCode =
     | 'missing-end-tag'
     | 'x-invalid-end-tag'
     | 'x-invalid-directive'
+    | 'x-unknown-directive'
+    | 'x-invalid-directive-value'
+    | 'x-duplicate-class'
+    | 'x-invalid-two-way-binding'
+    | 'x-orphan-conditional-branch'
+    | 'x-duplicate-conditional-else'
+    | 'x-invalid-conditional-sibling'
+    | 'x-duplicate-template-name'
+    | 'x-undefined-template'
+    | 'x-undefined-module-member'
+    | 'x-undefined-data'
+    | 'x-undefined-data-member'
+    | 'x-undefined-event-handler'
+    | 'x-sjs-unsupported-class'
+    | 'x-sjs-unsupported-async'
+    | 'x-sjs-unsupported-generator'
+    | 'x-sjs-unsupported-block-scoped'
+    | 'x-sjs-browser-global'
     | 'x-expression-error'
     | 'unreachable';
\ No newline at end of file
@@ -0,0 +1,31 @@
+/**
+ * @file builders 类型定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {XAttribute, XDirective, XElement, XLiteral, XMustache, XText} from './ast';
+
+/**
+ * The attributes of element, the object keys are the raw names of attributes or directives,
+ * e.g. `{'class': 'list', 's-if': '{{show}}', 'hidden': true}`.
+ */
+export type BuilderAttributes = (XAttribute | XDirective)[] | Record<string, string | true>;
+
+export interface ElementBuilderOptions {
+    attrs?: BuilderAttributes;
+
+    /**
+     * the child nodes, the strings are text nodes
+     */
+    children?: (XElement | XText | XMustache | string)[];
+
+    /**
+     * print the element as `<view/>`, default true if the element has no children
+     */
+    selfClosing?: boolean;
+}
+
+/**
+ * The value of attribute, the string is the source text of value, e.g. `item {{active ? 'on' : ''}}`.
+ */
+export type AttributeBuilderValue = string | (XLiteral | XMustache)[];
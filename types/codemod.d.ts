@@ -0,0 +1,110 @@
+/**
+ * @file codemod 类型定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import TokenStore from '../src/parser-services/external/token-store';
+import {Mustache, XDocument, XNode} from './ast';
+import {ParserOptions} from './parser';
+
+export interface CodemodFile {
+    filePath: string;
+
+    /**
+     * the source code of the file
+     */
+    code: string;
+    document: XDocument;
+
+    /**
+     * the token store of the tokens and comments of document
+     */
+    tokenStore: TokenStore;
+}
+
+export interface CodemodApi<T = any> {
+
+    /**
+     * print the node to source code, the source text of the nodes which are not changed is kept as is
+     */
+    print: (node: XNode | Mustache) => string;
+
+    /**
+     * the transformer of document, the nodes are inserted, removed and replaced by it
+     */
+    transformer: T;
+}
+
+/**
+ * The transform of each file, the document can be changed in place,
+ * or the new source code is returned. The file is unchanged if `false` is returned.
+ */
+export type CodemodTransform<T = any> = (file: CodemodFile, api: CodemodApi<T>) => string | boolean | null | void;
+
+export interface CodemodOptions<T = any> {
+
+    /**
+     * the glob patterns of template files relative to `cwd`, e.g. `pages/*.swan`, `**` matches any directories,
+     * and the directory matches all template files of any dialect in it, e.g. `.swan`, `.wxml`
+     */
+    patterns: string[];
+
+    /**
+     * the transform function, or the path of the module which exports it
+     */
+    transform: string | CodemodTransform<T>;
+
+    /**
+     * the directory to resolve the patterns and transform module, default `process.cwd()`
+     */
+    cwd?: string;
+
+    /**
+     * don't write the changed files, default false
+     */
+    dry?: boolean;
+
+    /**
+     * parser options of each template file, the dialect is resolved by the file extension unless `dialect` is set
+     */
+    parserOptions?: Partial<ParserOptions>;
+
+    /**
+     * read the file content, default read from file system
+     */
+    readFile?: (filePath: string) => string;
+
+    /**
+     * write the changed file content, default write to file system
+     */
+    writeFile?: (filePath: string, code: string) => void;
+}
+
+export type CodemodStatus = 'changed' | 'unchanged' | 'failed';
+
+export interface CodemodFileResult {
+    filePath: string;
+    status: CodemodStatus;
+
+    /**
+     * the transformed source code of changed files
+     */
+    code?: string;
+
+    /**
+     * the unified diff of changed files
+     */
+    diff?: string;
+
+    /**
+     * the error of failed files, e.g. the syntax error or the error thrown by transform
+     */
+    error?: Error;
+}
+
+export interface CodemodSummary {
+    files: CodemodFileResult[];
+    changed: number;
+    unchanged: number;
+    failed: number;
+}
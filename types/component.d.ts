@@ -0,0 +1,44 @@
+/**
+ * @file component 类型定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+export type ComponentAttributeType = 'string' | 'number' | 'boolean' | 'color' | 'array' | 'object' | 'any';
+
+export interface ComponentAttributeSchema {
+    type: ComponentAttributeType;
+
+    /**
+     * the default value, `undefined` if there is no default value
+     */
+    default?: string | number | boolean | null;
+
+    /**
+     * the allowed values of the attribute
+     */
+    values?: string[];
+
+    /**
+     * whether the attribute is required
+     */
+    required?: boolean;
+}
+
+export interface ComponentSchema {
+    name: string;
+
+    /**
+     * the attributes of the component, includes the common attributes like `id`, `class`
+     */
+    attributes: Record<string, ComponentAttributeSchema>;
+
+    /**
+     * the event names without prefix, e.g. `tap` of `bindtap`
+     */
+    events: string[];
+
+    /**
+     * whether the component can have children
+     */
+    children: boolean;
+}
@@ -0,0 +1,61 @@
+/**
+ * @file dialect 类型定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {ControlDirectivePrefix} from './ast';
+
+/**
+ * The template dialects of mini programs, `swan` of Baidu, `wxml` of WeChat, `axml` of Alipay,
+ * `ttml` of ByteDance and `qml` of QQ.
+ */
+export type DialectName = 'swan' | 'wxml' | 'axml' | 'ttml' | 'qml';
+
+export interface Dialect {
+    name: DialectName;
+
+    /**
+     * the extension name of template files, e.g. `.swan`
+     */
+    extension: string;
+
+    /**
+     * the prefix of control directives, e.g. `s-` of `s-if`, the event directives are the same in all dialects
+     */
+    directivePrefix: ControlDirectivePrefix;
+
+    /**
+     * the tags of script modules, their content is raw text, e.g. `<import-sjs>` and `<filter>`
+     */
+    scriptModuleTags: Set<string>;
+
+    /**
+     * the attribute names of the module name and the external module path, e.g. `module` and `src`
+     */
+    scriptModuleAttributes: {name: string; src: string};
+
+    /**
+     * the extension name of script module files, e.g. `.sjs`
+     */
+    scriptModuleExtension: string;
+
+    /**
+     * the tags which have no children and can not have end tags, e.g. `<include>`
+     */
+    voidTags: Set<string>;
+
+    /**
+     * the tags whose content is text without elements, e.g. `<textarea>`
+     */
+    rcdataTags: Set<string>;
+
+    /**
+     * match the directive name, the groups are the prefix and the name after prefix
+     */
+    directiveName: RegExp;
+
+    /**
+     * match the attribute name which has the directive prefix but is not a valid directive name
+     */
+    invalidDirectiveName: RegExp;
+}
@@ -0,0 +1,38 @@
+/**
+ * @file formatter 类型定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {ParserOptions} from './parser';
+
+/**
+ * `auto` puts each attribute on its own line if the start tag exceeds `printWidth`,
+ * `always` puts each attribute on its own line if the start tag has more than one attribute,
+ * `never` keeps the attributes on the line of tag name.
+ */
+export type AttributePerLine = 'auto' | 'always' | 'never';
+
+export interface FormatOptions {
+
+    /**
+     * the line width to wrap attributes and text, default 80
+     */
+    printWidth?: number;
+
+    /**
+     * the spaces of each indentation level, default 4
+     */
+    tabWidth?: number;
+
+    /**
+     * indent lines with tabs instead of spaces, default false
+     */
+    useTabs?: boolean;
+
+    /**
+     * the policy to put attributes on separate lines, default `auto`
+     */
+    attributePerLine?: AttributePerLine;
+}
+
+export type FormatterOptions = Partial<ParserOptions> & FormatOptions;
@@ -3,7 +3,11 @@
  * @author mengke01(kekee000@gmail.com)
  */
 import * as estree from 'estree';
-import {HasLocation, HasParent, Token, XDocument} from "./ast";
+import {
+    HasLocation, HasParent, Token, XComponent, XDocument, XElement, XEventHandler, XPageMethod,
+    XTemplateDefinition, XTemplateUsage
+} from "./ast";
+import {ComponentSchema} from "./component";
 
 export namespace ParserServices {
 
@@ -74,4 +78,53 @@ export interface ParserServices {
      * @returns The root document fragment.
      */
     getDocumentFragment(): XDocument | null;
+
+    /**
+     * Get the template definitions of the document, `<template name="x">`.
+     * @returns The template definitions.
+     */
+    getTemplateDefinitions(): XTemplateDefinition[];
+
+    /**
+     * Get the template usages of the document, `<template is="x">`.
+     * @returns The template usages.
+     */
+    getTemplateUsages(): XTemplateUsage[];
+
+    /**
+     * Get the schema of the built-in component, e.g. `scroll-view`.
+     * @param name The component name.
+     * @returns The component schema, or `null` if it is not a built-in component.
+     */
+    getComponentSchema(name: string): ComponentSchema | null;
+
+    /**
+     * Get the `usingComponents` of the page or component json config.
+     * @returns The mapping of custom component tags to paths, or `null` if the config can not be loaded.
+     */
+    getUsingComponents(): Record<string, string> | null;
+
+    /**
+     * Get the component of the element, built-in, custom or unknown.
+     * @param element The element to get.
+     */
+    getElementComponent(element: XElement): XComponent | null;
+
+    /**
+     * Get the static event handlers of the document, e.g. `bindtap="onTap"`.
+     * @returns The event handlers with the linked methods.
+     */
+    getEventHandlers(): XEventHandler[];
+
+    /**
+     * Get the methods of the sibling page or component script.
+     * @returns The methods with the referencing handlers.
+     */
+    getPageMethods(): XPageMethod[];
+
+    /**
+     * Get the methods which are not referenced by any event handler.
+     * @returns The unreferenced methods.
+     */
+    getUnreferencedMethods(): XPageMethod[];
 }
\ No newline at end of file
@@ -3,6 +3,8 @@
  * @author mengke01(kekee000@gmail.com)
  */
 
+import {DialectName} from './dialect';
+
 export interface ParserOptions {
 
     /**
@@ -19,6 +21,67 @@ export interface ParserOptions {
      * script parser options, default acron
      */
     script?: ScriptParserOptions
+
+    /**
+     * the file path of source code
+     */
+    filePath?: string;
+
+    /**
+     * the template dialect, default selected by the extension name of `filePath`, e.g. `wxml` of `.wxml` files,
+     * and `swan` if the extension name is unknown
+     */
+    dialect?: DialectName;
+
+    /**
+     * the root directory of mini program, absolute paths like `<import-sjs src="/utils/x.sjs">` are resolved from it
+     */
+    rootDir?: string;
+
+    /**
+     * read the external files like `<import-sjs src="./x.sjs">`, returns `null` if the file doesn't exist
+     */
+    readFile?: (filePath: string) => string | null;
+
+    /**
+     * the `usingComponents` of the page or component, default load from the sibling `.json` file by `readFile`
+     */
+    usingComponents?: Record<string, string>;
+
+    /**
+     * the attributes which are parsed into style declarations, e.g. `['style']`, default none
+     */
+    styleAttributes?: string[];
+
+    /**
+     * the extra tags which have no children and can not have end tags, e.g. `['import']`,
+     * the void tags of dialect like `<include>` are always included
+     */
+    voidTags?: string[];
+
+    /**
+     * the extra tags whose content is raw text, e.g. the script-like components `['markdown']`,
+     * the script module tags of dialect like `<import-sjs>` are always included
+     */
+    rawTextTags?: string[];
+
+    /**
+     * the extra tags whose content is text without elements, the `<textarea>` is always included
+     */
+    rcdataTags?: string[];
+
+    /**
+     * the tags which are closed by the start tag of the same name if they are left open, e.g. `['item']`
+     */
+    canBeLeftOpenTags?: string[];
+}
+
+/**
+ * The text edit of incremental reparse, the range is the offsets in the previous source code.
+ */
+export interface TextEdit {
+    range: [number, number];
+    text: string;
 }
 
 export interface ScriptParserOptions {
@@ -0,0 +1,70 @@
+/**
+ * @file project 类型定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {LocationRange, OffsetRange, XAttribute, XDocument, XElement} from './ast';
+import {ParserOptions} from './parser';
+
+export interface ProjectOptions {
+
+    /**
+     * the root directory of mini program, absolute `src` like `/pages/item.swan` is resolved from it
+     */
+    rootDir: string;
+
+    /**
+     * the `.swan` files to parse, default all `.swan` files in `rootDir` except `node_modules`
+     */
+    files?: string[];
+
+    /**
+     * read the file content, returns `null` if the file doesn't exist, default read from file system
+     */
+    readFile?: (filePath: string) => string | null;
+
+    /**
+     * parser options of each `.swan` file
+     */
+    parserOptions?: Partial<ParserOptions>;
+}
+
+export type DependencyKind = 'import' | 'include' | 'import-sjs';
+
+export interface DependencyEdge {
+    kind: DependencyKind;
+
+    /**
+     * the file which has the dependency
+     */
+    from: string;
+
+    /**
+     * the resolved file path, `null` if it can not be resolved
+     */
+    to: string | null;
+
+    /**
+     * the value of `src` attribute
+     */
+    src: string;
+    element: XElement;
+    srcNode: XAttribute;
+}
+
+export type ProjectDiagnosticCode = 'x-unresolved-dependency' | 'x-cyclic-dependency';
+
+export interface ProjectDiagnostic {
+    code: ProjectDiagnosticCode;
+    message: string;
+    filePath: string;
+    range: OffsetRange;
+    loc: LocationRange;
+    edge: DependencyEdge;
+}
+
+export interface ProjectFile {
+    filePath: string;
+    document: XDocument;
+    dependencies: DependencyEdge[];
+}
@@ -68,8 +68,12 @@ export interface Reference {
 
 export interface Variable {
     id: Identifier;
-    kind: 'for' | 'scope';
+    kind: 'for' | 'scope' | 'module';
     references: Reference[];
+    /**
+     * The exported member names of sjs module, `null` if unknown.
+     */
+    exports?: string[] | null;
 }
 
 /**
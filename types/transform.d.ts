@@ -0,0 +1,49 @@
+/**
+ * @file transform 类型定义
+ * @author mengke01(kekee000@gmail.com)
+ */
+
+import {Mustache, XAttribute, XDirective, XElement, XExpression, XMustache, XText} from './ast';
+
+/**
+ * The nodes which are visited by `transform()`.
+ */
+export type TransformNode = XElement | XText | XMustache | Mustache | XAttribute | XDirective | XExpression;
+
+/**
+ * The child node of document or element.
+ */
+export type TransformChildNode = XElement['children'][number];
+
+/**
+ * The visitor of `transform()`, the function of each node type is called in document order.
+ * The second argument is the transformer, e.g. `{XElement(node, transformer) {}}`.
+ */
+export type TransformVisitor<T = any> = {
+    [K in TransformNode['type']]?: (node: Extract<TransformNode, {type: K}>, transformer: T) => void;
+};
+
+/**
+ * The source map of the generated code, see https://sourcemaps.info/spec.html
+ */
+export interface SourceMap {
+    version: 3;
+    file?: string;
+    sources: string[];
+    sourcesContent: string[];
+    names: string[];
+    mappings: string;
+}
+
+export interface GenerateResult {
+
+    /**
+     * the source code of the transformed document
+     */
+    code: string;
+
+    /**
+     * the source map from the generated code to the source code of document
+     */
+    map: SourceMap;
+}